@@ -57,7 +57,11 @@ export async function init(options: InitOptions): Promise<void> {
         process.exit(0);
       }
 
-      await runGenericExistingFlow(primitive, config, context);
+      if (config.action === 'new-subfolder') {
+        await runGenericNewFlow(primitive, config, context);
+      } else {
+        await runGenericExistingFlow(primitive, config, context);
+      }
     } else {
       const config = await primitive.promptNew();
       if (!config) {
@@ -101,7 +105,12 @@ export async function init(options: InitOptions): Promise<void> {
         logger.info('Setup cancelled');
         process.exit(0);
       }
-      await runGenericExistingFlow(queuesPrimitive, config, context);
+
+      if (config.action === 'new-subfolder') {
+        await runGenericNewFlow(queuesPrimitive, config, context);
+      } else {
+        await runGenericExistingFlow(queuesPrimitive, config, context);
+      }
     }
   }
 }
@@ -1,142 +1,435 @@
-import { Project, SyntaxKind, SourceFile } from 'ts-morph';
+import {
+  Project,
+  IndentationText,
+  Node,
+  SourceFile,
+  MethodDeclaration,
+  FunctionExpression,
+  ObjectLiteralExpression,
+  ReturnStatement,
+} from 'ts-morph';
 import fs from 'fs-extra';
 import { logger } from './logger.js';
 
-export interface PatchOptions {
-  bindingName: string;
-  includeDemo: boolean;
+/**
+ * Find the default-exported handler object,
+ * e.g. `export default { async fetch(request, env) {} } satisfies ExportedHandler<Env>`
+ */
+function findDefaultExportObject(sourceFile: SourceFile): ObjectLiteralExpression | undefined {
+  const exportAssignment = sourceFile.getExportAssignment((e) => !e.isExportEquals());
+  if (!exportAssignment) {
+    return undefined;
+  }
+
+  // Unwrap `satisfies`, `as` and parentheses around the object literal
+  let expression: Node = exportAssignment.getExpression();
+  while (
+    Node.isSatisfiesExpression(expression) ||
+    Node.isAsExpression(expression) ||
+    Node.isParenthesizedExpression(expression)
+  ) {
+    expression = expression.getExpression();
+  }
+
+  return Node.isObjectLiteralExpression(expression) ? expression : undefined;
+}
+
+function findHandler(
+  sourceFile: SourceFile,
+  name: string
+): MethodDeclaration | FunctionExpression | undefined {
+  const property = findDefaultExportObject(sourceFile)?.getProperty(name);
+
+  if (Node.isMethodDeclaration(property)) {
+    return property;
+  }
+
+  if (Node.isPropertyAssignment(property)) {
+    const initializer = property.getInitializer();
+    if (Node.isFunctionExpression(initializer)) {
+      return initializer;
+    }
+  }
+
+  return undefined;
 }
 
-export async function patchEntryFile(
+export async function createNewEntryFile(
   filePath: string,
-  options: PatchOptions
+  content: string
+): Promise<boolean> {
+  try {
+    await fs.ensureDir(filePath.substring(0, filePath.lastIndexOf('/')));
+    await fs.writeFile(filePath, content, 'utf-8');
+    logger.success(`Created entry file: ${filePath}`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to create entry file: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+export interface EnvBinding {
+  name: string;
+  type: string;
+}
+
+/**
+ * Add bindings to the Env interface of an entry file, creating the
+ * interface if it doesn't exist. Bindings already present are left as-is.
+ */
+export async function patchEnvBindings(
+  filePath: string,
+  bindings: EnvBinding[]
 ): Promise<boolean> {
   try {
     const project = new Project();
     const sourceFile = project.addSourceFileAtPath(filePath);
 
-    // Check if KV binding already exists in Env interface
-    if (hasKVBinding(sourceFile, options.bindingName)) {
-      logger.warn(`Binding "${options.bindingName}" already exists in Env interface`);
-      return true;
+    let envInterface = sourceFile.getInterface('Env');
+    if (!envInterface) {
+      envInterface = sourceFile.addInterface({ name: 'Env', isExported: true });
     }
 
-    // Patch the file
-    const success = patchSourceFile(sourceFile, options);
-
-    if (success) {
-      await sourceFile.save();
-      logger.success(`Patched entry file: ${filePath}`);
-      return true;
+    for (const binding of bindings) {
+      if (envInterface.getProperty(binding.name)) {
+        logger.warn(`Binding "${binding.name}" already exists in Env interface`);
+        continue;
+      }
+      envInterface.addProperty({ name: binding.name, type: binding.type });
     }
 
-    return false;
+    await sourceFile.save();
+    logger.success(`Patched Env interface in ${filePath}`);
+    return true;
   } catch (error) {
     if (error instanceof Error) {
       logger.error(`Failed to patch entry file: ${error.message}`);
-      logger.info('You may need to manually add the KV binding to your worker');
-      printManualInstructions(options);
     }
+    console.log('\nAdd the following to your Env interface:\n');
+    bindings.forEach((binding) => console.log(`  ${binding.name}: ${binding.type};`));
+    console.log('');
     return false;
   }
 }
 
-function hasKVBinding(sourceFile: SourceFile, bindingName: string): boolean {
-  const envInterfaces = sourceFile.getInterfaces().filter((i) => i.getName() === 'Env');
+export interface FetchRouteOptions {
+  pathPrefix: string; // e.g. '/notes'
+  handlerName: string; // Exported route handler, called as handler(request, env)
+  importPath: string; // Module exporting the handler, relative to the entry file
+}
 
-  for (const envInterface of envInterfaces) {
-    const properties = envInterface.getProperties();
-    if (properties.some((p) => p.getName() === bindingName)) {
+/**
+ * Import a route handler into an entry file and dispatch matching requests
+ * to it at the top of the default export's fetch handler
+ */
+export async function patchFetchRoute(
+  filePath: string,
+  options: FetchRouteOptions
+): Promise<boolean> {
+  const { pathPrefix, handlerName, importPath } = options;
+
+  try {
+    const project = new Project({
+      manipulationSettings: { indentationText: IndentationText.TwoSpaces },
+    });
+    const sourceFile = project.addSourceFileAtPath(filePath);
+
+    if (sourceFile.getImportDeclaration((i) => i.getModuleSpecifierValue() === importPath)) {
+      logger.warn(`${importPath} is already imported in ${filePath}`);
       return true;
     }
+
+    const fetchHandler = findHandler(sourceFile, 'fetch');
+    const [requestParam, envParam] = fetchHandler?.getParameters() ?? [];
+
+    if (!fetchHandler || !requestParam || !envParam) {
+      throw new Error('Could not find a fetch(request, env) handler in the default export');
+    }
+
+    sourceFile.addImportDeclaration({
+      namedImports: [handlerName],
+      moduleSpecifier: importPath,
+    });
+
+    const requestName = requestParam.getName();
+    const envName = envParam.getName();
+    fetchHandler.insertStatements(
+      0,
+      `if (${getRouteMatcher(pathPrefix)}.test(new URL(${requestName}.url).pathname)) {
+  return ${handlerName}(${requestName}, ${envName});
+}`
+    );
+
+    await sourceFile.save();
+    logger.success(`Added ${pathPrefix} route to ${filePath}`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to add ${pathPrefix} route: ${error.message}`);
+    }
+    console.log('\nAdd this import to your entry file:\n');
+    console.log(`  import { ${handlerName} } from "${importPath}";`);
+    console.log('\nAnd this route to the top of your fetch handler:\n');
+    console.log(`  if (${getRouteMatcher(pathPrefix)}.test(new URL(request.url).pathname)) {`);
+    console.log(`    return ${handlerName}(request, env);`);
+    console.log('  }\n');
+    return false;
   }
+}
 
-  return false;
+// Regex literal matching the prefix itself and paths under it, so "/db" doesn't catch "/dbx"
+function getRouteMatcher(pathPrefix: string): string {
+  const escaped = pathPrefix.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  return `/^${escaped}(\\/|$)/`;
 }
 
-function patchSourceFile(sourceFile: SourceFile, options: PatchOptions): boolean {
-  // Find or create Env interface
-  let envInterface = sourceFile.getInterface('Env');
+export interface FetchFallthroughOptions {
+  bindingName: string; // Fetcher binding unhandled requests go to, e.g. 'ASSETS'
+}
 
-  if (!envInterface) {
-    // Create new Env interface
-    envInterface = sourceFile.addInterface({
-      name: 'Env',
-      isExported: true,
-      properties: [
-        {
-          name: options.bindingName,
-          type: 'KVNamespace',
-        },
-      ],
-    });
-  } else {
-    // Add property to existing interface
-    envInterface.addProperty({
-      name: options.bindingName,
-      type: 'KVNamespace',
+/**
+ * Make the default export's fetch handler fall through to a Fetcher binding
+ * (e.g. static assets) for requests none of its routes handled. A trailing
+ * `return` is replaced only when it's clearly the default response; otherwise
+ * the file is left alone and the manual step is printed.
+ */
+export async function patchFetchFallthrough(
+  filePath: string,
+  options: FetchFallthroughOptions
+): Promise<boolean> {
+  const { bindingName } = options;
+
+  try {
+    const project = new Project({
+      manipulationSettings: { indentationText: IndentationText.TwoSpaces },
     });
-  }
+    const sourceFile = project.addSourceFileAtPath(filePath);
+
+    const fetchHandler = findHandler(sourceFile, 'fetch');
+    const [requestParam, envParam] = fetchHandler?.getParameters() ?? [];
+
+    if (!fetchHandler || !requestParam || !envParam) {
+      throw new Error('Could not find a fetch(request, env) handler in the default export');
+    }
 
-  // If demo is requested, try to add /kv route
-  if (options.includeDemo) {
-    addDemoRoute(sourceFile, options.bindingName);
+    if (fetchHandler.getBodyText()?.includes(`.${bindingName}.fetch(`)) {
+      logger.warn(`fetch handler already falls through to ${bindingName}`);
+      return true;
+    }
+
+    const fallthrough = `// Requests no route handles are served by ${bindingName}
+return ${envParam.getName()}.${bindingName}.fetch(${requestParam.getName()});`;
+
+    const statements = fetchHandler.getStatements();
+    const lastStatement = statements[statements.length - 1];
+    if (lastStatement && Node.isReturnStatement(lastStatement)) {
+      if (!isDefaultResponse(lastStatement, statements.length)) {
+        logger.warn(`fetch ends with "${lastStatement.getText().split('\n')[0]}", which may be a route's response`);
+        printFallthroughInstructions(bindingName);
+        return false;
+      }
+      logger.warn(`Replacing the default response "${lastStatement.getText().split('\n')[0]}" in fetch`);
+      lastStatement.replaceWithText(fallthrough);
+    } else {
+      fetchHandler.addStatements(fallthrough);
+    }
+
+    await sourceFile.save();
+    logger.success(`fetch now falls through to ${bindingName} in ${filePath}`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to add ${bindingName} fall-through: ${error.message}`);
+    }
+    printFallthroughInstructions(bindingName);
+    return false;
   }
+}
 
-  return true;
+// A literal 404 response, or the only statement of a starter handler (e.g. `return new Response('Hello World!')`).
+// Returns that delegate elsewhere, like `return app.fetch(request)`, are never the default.
+function isDefaultResponse(statement: ReturnStatement, statementCount: number): boolean {
+  const expression = statement.getExpression();
+  const isResponse =
+    (Node.isNewExpression(expression) && expression.getExpression().getText() === 'Response') ||
+    (Node.isCallExpression(expression) && expression.getExpression().getText() === 'Response.json');
+  if (!isResponse) return false;
+  if (statementCount === 1) return true;
+
+  const text = statement.getText();
+  return /status\s*:\s*404\b/.test(text) || /['"`]Not Found['"`]/i.test(text);
+}
+
+function printFallthroughInstructions(bindingName: string): void {
+  console.log('\nWhere your fetch handler returns its default response, return this instead:\n');
+  console.log(`  return env.${bindingName}.fetch(request);\n`);
 }
 
-function addDemoRoute(sourceFile: SourceFile, bindingName: string): void {
-  // Find the default export
-  const defaultExport = sourceFile.getDefaultExportSymbol();
+/**
+ * Re-export classes from an entry file, e.g. `export { Counter } from "./counter"`.
+ * Wrangler requires Durable Object and Workflow classes to be exported from the entry module.
+ */
+export async function patchEntryExport(
+  filePath: string,
+  names: string[],
+  moduleSpecifier: string
+): Promise<boolean> {
+  try {
+    const project = new Project();
+    const sourceFile = project.addSourceFileAtPath(filePath);
+
+    const exported = new Set(sourceFile.getExportSymbols().map((s) => s.getName()));
+    const missing = names.filter((name) => !exported.has(name));
 
-  if (!defaultExport) {
-    logger.warn('Could not find default export. Skipping demo route injection.');
-    return;
+    if (missing.length === 0) {
+      logger.warn(`${names.join(', ')} already exported from ${filePath}`);
+      return true;
+    }
+
+    sourceFile.addExportDeclaration({
+      namedExports: missing,
+      moduleSpecifier,
+    });
+
+    await sourceFile.save();
+    logger.success(`Exported ${missing.join(', ')} from ${filePath}`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch entry file: ${error.message}`);
+    }
+    console.log('\nAdd this export to your entry file:\n');
+    console.log(`  export { ${names.join(', ')} } from "${moduleSpecifier}";\n`);
+    return false;
   }
+}
 
-  // This is a simplified approach - in production you'd want more robust AST manipulation
-  // For now, we'll just add a comment suggesting the user adds the route manually
-  logger.info('Note: Demo route code needs to be added manually to the fetch handler');
+export interface HandlerMethodOptions {
+  name: string; // Handler on the default export, e.g. 'scheduled'
+  parameters: Array<{ name: string; type: string }>;
+  returnType: string;
+  statements: string;
+  namedImports: string[]; // Imported for use in the statements
+  importPath: string;
 }
 
-function printManualInstructions(options: PatchOptions): void {
-  console.log('\nAdd the following to your Env interface:\n');
-  console.log(`  ${options.bindingName}: KVNamespace;\n`);
+/**
+ * Add a handler method (scheduled, queue, email, ...) to the default export
+ * of an entry file, alongside its existing fetch handler
+ */
+export async function patchHandlerMethod(
+  filePath: string,
+  options: HandlerMethodOptions
+): Promise<boolean> {
+  const { name, parameters, returnType, statements, namedImports, importPath } = options;
+  const signature = `async ${name}(${parameters.map((p) => `${p.name}: ${p.type}`).join(', ')}): ${returnType}`;
 
-  if (options.includeDemo) {
-    console.log('And add this route to your fetch handler:\n');
-    console.log(`
-    if (url.pathname === "/kv") {
-      if (request.method === "GET") {
-        const key = url.searchParams.get("key");
-        if (!key) return new Response("Missing ?key", { status: 400 });
+  try {
+    // Generated entry files use two-space indentation
+    const project = new Project({
+      manipulationSettings: { indentationText: IndentationText.TwoSpaces },
+    });
+    const sourceFile = project.addSourceFileAtPath(filePath);
 
-        const value = await env.${options.bindingName}.get(key);
-        if (value === null) return new Response("Not found", { status: 404 });
+    const handlerObject = findDefaultExportObject(sourceFile);
+    if (!handlerObject) {
+      throw new Error('Could not find a default-exported handler object');
+    }
 
-        return new Response(JSON.stringify({ key, value }), {
-          headers: { "Content-Type": "application/json" }
-        });
-      }
+    if (handlerObject.getProperty(name)) {
+      throw new Error(`The default export already has a ${name} handler`);
+    }
+
+    const importDeclaration = sourceFile.getImportDeclaration(
+      (i) => i.getModuleSpecifierValue() === importPath
+    );
+    if (importDeclaration) {
+      const imported = new Set(importDeclaration.getNamedImports().map((n) => n.getName()));
+      importDeclaration.addNamedImports(namedImports.filter((n) => !imported.has(n)));
+    } else {
+      sourceFile.addImportDeclaration({ namedImports, moduleSpecifier: importPath });
     }
-    `);
+
+    handlerObject.addMethod({
+      name,
+      isAsync: true,
+      parameters,
+      returnType,
+      statements,
+    });
+
+    await sourceFile.save();
+    logger.success(`Added ${name} handler to ${filePath}`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.warn(`Could not add ${name} handler: ${error.message}`);
+    }
+    console.log('\nAdd this import to your entry file:\n');
+    console.log(`  import { ${namedImports.join(', ')} } from "${importPath}";`);
+    console.log('\nAnd this handler to your default export:\n');
+    console.log(`  ${signature} {`);
+    statements.split('\n').forEach((line) => console.log(`    ${line}`));
+    console.log('  },\n');
+    return false;
   }
 }
 
-export async function createNewEntryFile(
+export interface HandlerStatementsOptions {
+  name: string; // Existing handler on the default export, e.g. 'queue'
+  statements: (parameterNames: string[]) => string; // Built from the handler's own parameter names
+  defaultParameterNames: string[]; // Used in manual instructions, e.g. ['batch', 'env', 'ctx']
+  namedImports: string[];
+  importPath: string;
+}
+
+/**
+ * Insert statements at the top of an existing handler (queue, scheduled, ...)
+ * on the default export, e.g. to record metrics for every invocation
+ */
+export async function patchHandlerStatements(
   filePath: string,
-  content: string
+  options: HandlerStatementsOptions
 ): Promise<boolean> {
+  const { name, statements, defaultParameterNames, namedImports, importPath } = options;
+
   try {
-    await fs.ensureDir(filePath.substring(0, filePath.lastIndexOf('/')));
-    await fs.writeFile(filePath, content, 'utf-8');
-    logger.success(`Created entry file: ${filePath}`);
+    const project = new Project({
+      manipulationSettings: { indentationText: IndentationText.TwoSpaces },
+    });
+    const sourceFile = project.addSourceFileAtPath(filePath);
+
+    const handler = findHandler(sourceFile, name);
+    if (!handler) {
+      throw new Error(`Could not find a ${name} handler in the default export`);
+    }
+
+    const importDeclaration = sourceFile.getImportDeclaration(
+      (i) => i.getModuleSpecifierValue() === importPath
+    );
+    if (importDeclaration) {
+      const imported = new Set(importDeclaration.getNamedImports().map((n) => n.getName()));
+      importDeclaration.addNamedImports(namedImports.filter((n) => !imported.has(n)));
+    } else {
+      sourceFile.addImportDeclaration({ namedImports, moduleSpecifier: importPath });
+    }
+
+    handler.insertStatements(0, statements(handler.getParameters().map((p) => p.getName())));
+
+    await sourceFile.save();
+    logger.success(`Patched ${name} handler in ${filePath}`);
     return true;
   } catch (error) {
     if (error instanceof Error) {
-      logger.error(`Failed to create entry file: ${error.message}`);
+      logger.warn(`Could not patch ${name} handler: ${error.message}`);
     }
+    console.log('\nAdd this import to your entry file:\n');
+    console.log(`  import { ${namedImports.join(', ')} } from "${importPath}";`);
+    console.log(`\nAnd this to the top of your ${name} handler:\n`);
+    console.log(`  ${statements(defaultParameterNames)}\n`);
     return false;
   }
 }
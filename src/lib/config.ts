@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import * as jsonc from 'jsonc-parser';
 import { logger } from './logger.js';
+import { getNextMigrationTag, getTomlMigrationTags } from './migrations.js';
 
 export interface KVBinding {
   binding: string;
@@ -13,6 +14,8 @@ export interface QueueConfig {
   maxBatchSize?: number;
   maxBatchTimeout?: number;
   maxRetries?: number;
+  maxConcurrency?: number; // Unset lets the consumer autoscale
+  retryDelay?: number; // Seconds before a retried message is redelivered
 }
 
 export async function patchWranglerConfig(
@@ -158,7 +161,9 @@ async function patchTomlConfigForQueues(
       bindingName,
       maxBatchSize = 4,
       maxBatchTimeout = 3,
-      maxRetries = 3
+      maxRetries = 3,
+      maxConcurrency,
+      retryDelay
     } = config;
 
     // Check if queue already exists
@@ -192,7 +197,8 @@ queue = "${queueName}"
 max_batch_size = ${maxBatchSize}
 max_batch_timeout = ${maxBatchTimeout}
 max_retries = ${maxRetries}
-`;
+${maxConcurrency !== undefined ? `max_concurrency = ${maxConcurrency}\n` : ''}\
+${retryDelay !== undefined ? `retry_delay = ${retryDelay}\n` : ''}`;
     updatedContent += queueConfig;
 
     // 3. Add Durable Object binding if not present
@@ -208,10 +214,11 @@ class_name = "EventStore"
 
     // 4. Add migration if not present
     if (!content.includes('new_classes = ["EventStore"]')) {
+      const tag = getNextMigrationTag(getTomlMigrationTags(content));
       const migration = `
 # Durable Object Migrations
 [[migrations]]
-tag = "v1"
+tag = "${tag}"
 new_classes = ["EventStore"]
 `;
       updatedContent += migration;
@@ -239,7 +246,9 @@ async function patchJsonConfigForQueues(
       bindingName,
       maxBatchSize = 4,
       maxBatchTimeout = 3,
-      maxRetries = 3
+      maxRetries = 3,
+      maxConcurrency,
+      retryDelay
     } = config;
 
     const parsedConfig = jsonc.parse(content);
@@ -288,7 +297,9 @@ async function patchJsonConfigForQueues(
       queue: queueName,
       max_batch_size: maxBatchSize,
       max_batch_timeout: maxBatchTimeout,
-      max_retries: maxRetries
+      max_retries: maxRetries,
+      ...(maxConcurrency !== undefined && { max_concurrency: maxConcurrency }),
+      ...(retryDelay !== undefined && { retry_delay: retryDelay })
     };
     edits = jsonc.modify(
       updatedContent,
@@ -324,7 +335,7 @@ async function patchJsonConfigForQueues(
 
     if (!hasMigration) {
       const newMigration = {
-        tag: 'v1',
+        tag: getNextMigrationTag(migrations.map((m: any) => m.tag)),
         new_classes: ['EventStore']
       };
       edits = jsonc.modify(
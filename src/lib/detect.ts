@@ -1,5 +1,6 @@
 import fs from 'fs-extra';
 import path from 'node:path';
+import * as jsonc from 'jsonc-parser';
 
 export interface ProjectContext {
   isWorkerProject: boolean;
@@ -78,3 +79,164 @@ async function detectEntryFile(cwd: string, wranglerConfigPath: string): Promise
   // For now, return null if standard paths don't exist
   return null;
 }
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['package-lock.json', 'npm'],
+];
+
+/**
+ * Detect the package manager from the nearest lockfile, looking up from cwd so
+ * workspace packages use their root's lockfile. Defaults to npm.
+ */
+export async function detectPackageManager(cwd: string = process.cwd()): Promise<PackageManager> {
+  let dir = path.resolve(cwd);
+
+  while (true) {
+    for (const [lockfile, packageManager] of LOCKFILES) {
+      if (await fs.pathExists(path.join(dir, lockfile))) {
+        return packageManager;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return 'npm';
+    }
+    dir = parent;
+  }
+}
+
+// Command that adds dependencies with the given package manager, e.g. ['pnpm', 'add', '-D', 'foo']
+export function getAddDependenciesCommand(
+  packageManager: PackageManager,
+  dependencies: string[],
+  dev = false
+): string[] {
+  if (packageManager === 'npm') {
+    return ['npm', 'install', ...(dev ? ['--save-dev'] : []), ...dependencies];
+  }
+  return [packageManager, 'add', ...(dev ? ['-D'] : []), ...dependencies];
+}
+
+export interface WorkerProject {
+  dir: string;
+  name: string; // `name` from the wrangler config, used as the service name
+  context: ProjectContext;
+}
+
+/**
+ * Find other Worker projects next to this one: sibling directories and,
+ * if this project is part of an npm/pnpm workspace, every workspace package
+ */
+export async function findSiblingWorkers(cwd: string = process.cwd()): Promise<WorkerProject[]> {
+  const candidates = new Set<string>();
+
+  for (const dir of await listSubdirectories(path.dirname(cwd))) {
+    candidates.add(dir);
+  }
+
+  const workspaceRoot = await findWorkspaceRoot(cwd);
+  if (workspaceRoot) {
+    for (const pattern of await getWorkspacePatterns(workspaceRoot)) {
+      for (const dir of await expandWorkspacePattern(workspaceRoot, pattern)) {
+        candidates.add(dir);
+      }
+    }
+  }
+
+  candidates.delete(path.resolve(cwd));
+
+  const workers: WorkerProject[] = [];
+  for (const dir of candidates) {
+    const context = await detectProjectContext(dir);
+    if (context.isWorkerProject && context.wranglerConfigPath) {
+      const name = await getWorkerName(context.wranglerConfigPath);
+      workers.push({ dir, name: name ?? path.basename(dir), context });
+    }
+  }
+
+  return workers.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getWorkerName(wranglerConfigPath: string): Promise<string | null> {
+  const content = await fs.readFile(wranglerConfigPath, 'utf-8');
+
+  if (wranglerConfigPath.endsWith('.toml')) {
+    // Top-level name, before any [table]
+    const topLevel = content.split(/^\[/m)[0];
+    return topLevel.match(/^name\s*=\s*"([^"]+)"/m)?.[1] ?? null;
+  }
+
+  const name = jsonc.parse(content)?.name;
+  return typeof name === 'string' ? name : null;
+}
+
+async function listSubdirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules')
+      .map((entry) => path.join(dir, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+async function findWorkspaceRoot(cwd: string): Promise<string | null> {
+  let dir = path.resolve(cwd);
+
+  while (true) {
+    if (await fs.pathExists(path.join(dir, 'pnpm-workspace.yaml'))) {
+      return dir;
+    }
+
+    const packageJsonPath = path.join(dir, 'package.json');
+    if (await fs.pathExists(packageJsonPath)) {
+      const packageJson = await fs.readJson(packageJsonPath).catch(() => ({}));
+      if (packageJson.workspaces) {
+        return dir;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+async function getWorkspacePatterns(root: string): Promise<string[]> {
+  const pnpmWorkspacePath = path.join(root, 'pnpm-workspace.yaml');
+  if (await fs.pathExists(pnpmWorkspacePath)) {
+    // Only the `packages:` list is needed, e.g. `  - "apps/*"`
+    const content = await fs.readFile(pnpmWorkspacePath, 'utf-8');
+    const packagesBlock = content.split(/^packages:\s*$/m)[1]?.split(/^\S/m)[0] ?? '';
+    return Array.from(packagesBlock.matchAll(/^\s*-\s*["']?([^"'\n]+)["']?\s*$/gm), (m) => m[1].trim());
+  }
+
+  const packageJson = await fs.readJson(path.join(root, 'package.json')).catch(() => ({}));
+  const workspaces = packageJson.workspaces;
+  return Array.isArray(workspaces) ? workspaces : workspaces?.packages ?? [];
+}
+
+// Supports the common `dir/*` and `dir/**` forms plus plain paths; negations are skipped
+async function expandWorkspacePattern(root: string, pattern: string): Promise<string[]> {
+  if (pattern.startsWith('!')) {
+    return [];
+  }
+
+  const wildcard = pattern.match(/^(.*?)\/\*\*?$/);
+  if (wildcard) {
+    return listSubdirectories(path.join(root, wildcard[1]));
+  }
+
+  const dir = path.join(root, pattern);
+  return (await fs.pathExists(dir)) ? [dir] : [];
+}
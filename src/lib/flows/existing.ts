@@ -32,9 +32,11 @@ export async function runExistingProjectFlow(context: ProjectContext): Promise<v
   const configPatched = await patchWranglerConfigForQueues(configPath, {
     queueName,
     bindingName,
-    maxBatchSize: 4,
-    maxBatchTimeout: 3,
-    maxRetries: 3,
+    maxBatchSize: choices.maxBatchSize,
+    maxBatchTimeout: choices.maxBatchTimeout,
+    maxRetries: choices.maxRetries,
+    maxConcurrency: choices.maxConcurrency,
+    retryDelay: choices.retryDelay,
   });
 
   if (!configPatched) {
@@ -66,7 +68,12 @@ export async function runExistingProjectFlow(context: ProjectContext): Promise<v
   if (await fs.pathExists(dashboardPath)) {
     logger.warn('dashboard.html already exists, skipping');
   } else {
-    const dashboardHTML = generateDashboardHTML();
+    const dashboardHTML = generateDashboardHTML({
+      maxBatchSize: choices.maxBatchSize,
+      maxBatchTimeout: choices.maxBatchTimeout,
+      maxRetries: choices.maxRetries,
+      maxConcurrency: choices.maxConcurrency,
+    });
     await fs.writeFile(dashboardPath, dashboardHTML, 'utf-8');
     logger.success('Created dashboard.html');
   }
@@ -76,7 +83,12 @@ export async function runExistingProjectFlow(context: ProjectContext): Promise<v
   if (await fs.pathExists(queueHandlerPath)) {
     logger.warn('queue-handler.ts already exists, skipping');
   } else {
-    const workerCode = generateQueueWorkerCode({ queueName, bindingName });
+    const workerCode = generateQueueWorkerCode({
+      queueName,
+      bindingName,
+      maxRetries: choices.maxRetries,
+      retryDelay: choices.retryDelay,
+    });
     await fs.writeFile(queueHandlerPath, workerCode, 'utf-8');
     logger.success('Created queue-handler.ts as a reference');
   }
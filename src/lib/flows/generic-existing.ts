@@ -4,6 +4,8 @@ import { ProjectContext } from '../detect.js';
 import { Primitive, PrimitiveConfig } from '../../primitives/base.js';
 import { logger } from '../logger.js';
 import { coloredPrompts } from '../helpers.js';
+import { patchEnvBindings } from '../ast-patcher.js';
+import { writeDevVars } from '../secrets.js';
 
 /**
  * Generic flow for adding a primitive to an existing Worker project
@@ -21,6 +23,11 @@ export async function runGenericExistingFlow(
     process.exit(1);
   }
 
+  // Let the primitive patch the existing entry file instead of replacing it
+  if (context.entryFilePath) {
+    config.entryFilePath = context.entryFilePath;
+  }
+
   // Step 1: Patch config (if primitive needs it)
   if (primitive.patchConfig) {
     logger.step(`Adding ${primitive.name} configuration...`);
@@ -45,36 +52,24 @@ export async function runGenericExistingFlow(
   // Generate primitive-specific files
   await primitive.generateFiles(projectRoot, config);
 
+  // Local values for the primitive's secrets go in .dev.vars (gitignored), typed on Env
+  const secrets = primitive.getSecrets?.(config) ?? [];
+  if (secrets.length > 0) {
+    await writeDevVars(projectRoot, secrets);
+
+    if (config.entryFilePath) {
+      await patchEnvBindings(
+        config.entryFilePath,
+        secrets.map((secret) => ({ name: secret.name, type: 'string' }))
+      );
+    }
+  }
+
   // Step 3: Success message
   console.log('\n' + '='.repeat(80));
   logger.success(`${primitive.name} configuration added!`);
   console.log('='.repeat(80));
 
-  // Show integration instructions if needed
-  if (primitive.id === 'queues') {
-    console.log('\n📝 Manual steps required:\n');
-    console.log('Your existing index.ts was not modified. You need to integrate the queue code:');
-    console.log('\n1. Add to your Env interface:');
-    console.log(`   ${(config as any).bindingName}: Queue;`);
-    console.log('   EVENT_STORE: DurableObjectNamespace;');
-    console.log('\n2. Add these imports at the top of your index.ts:');
-    console.log('   import { EventStore } from "./event-store";');
-    console.log('   import dashboardHTML from "./dashboard.html";');
-    console.log('\n3. Export the EventStore class:');
-    console.log('   export { EventStore };');
-    console.log('\n4. Add dashboard route to your fetch handler:');
-    console.log('   if (request.method === "GET" && url.pathname === "/") {');
-    console.log('     return new Response(dashboardHTML, {');
-    console.log('       headers: { "Content-Type": "text/html" },');
-    console.log('     });');
-    console.log('   }');
-    console.log('\n5. Add queue consumer handler to your worker:');
-    console.log('   async queue(batch: MessageBatch, env: Env): Promise<void> {');
-    console.log('     // See queue-handler.ts for full implementation');
-    console.log('   }');
-    console.log('\n📄 Reference: Check queue-handler.ts for the complete implementation');
-  }
-
   // Step 4: Ask if they want to run primitive-specific setup
   if (primitive.preDeploySteps) {
     console.log('');
@@ -89,9 +84,9 @@ export async function runGenericExistingFlow(
       console.log('');
       await primitive.preDeploySteps(process.cwd(), config);
     } else {
-      if (primitive.id === 'queues') {
-        const queueConfig = config as any;
-        console.log(`\n⚠️  Remember to create the queue before deploying: npx wrangler queues create ${queueConfig.queueName}`);
+      const setupCommands = primitive.getDeploymentInfo?.(config).setupCommands;
+      if (setupCommands?.length) {
+        console.log(`\n⚠️  Remember to create ${primitive.name} resources before deploying: ${setupCommands.join(' && ')}`);
       }
     }
   }
@@ -4,6 +4,7 @@ import { execa } from 'execa';
 import { ProjectContext } from '../detect.js';
 import { Primitive, PrimitiveConfig } from '../../primitives/base.js';
 import { logger } from '../logger.js';
+import { writeDevVars } from '../secrets.js';
 
 /**
  * Generic flow for creating a new Worker project with any primitive
@@ -97,6 +98,12 @@ export async function runGenericNewFlow(
   logger.step(`Generating ${primitive.name} files...`);
   await primitive.generateFiles(projectDir, config);
 
+  // Local values for the primitive's secrets go in .dev.vars (gitignored)
+  const secrets = primitive.getSecrets?.(config) ?? [];
+  if (secrets.length > 0) {
+    await writeDevVars(projectDir, secrets);
+  }
+
   // Step 5: Success message
   logger.success(`Created project: ${projectName}`);
 
@@ -149,10 +156,9 @@ export async function runGenericNewFlow(
     console.log(`  cd ${projectName}`);
 
     // Add primitive-specific deployment instructions
-    if (primitive.id === 'queues') {
-      const queueConfig = config as any;
-      console.log(`  npx wrangler queues create ${queueConfig.queueName}`);
-    }
+    deployInfo?.setupCommands?.forEach((command) => {
+      console.log(`  ${command}`);
+    });
 
     console.log('  npx wrangler deploy');
   }
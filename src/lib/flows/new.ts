@@ -80,9 +80,11 @@ export async function runNewProjectFlow(context: ProjectContext): Promise<void>
   const configPatched = await patchWranglerConfigForQueues(configPath, {
     queueName,
     bindingName,
-    maxBatchSize: 4,
-    maxBatchTimeout: 3,
-    maxRetries: 3,
+    maxBatchSize: choices.maxBatchSize,
+    maxBatchTimeout: choices.maxBatchTimeout,
+    maxRetries: choices.maxRetries,
+    maxConcurrency: choices.maxConcurrency,
+    retryDelay: choices.retryDelay,
   });
 
   if (!configPatched) {
@@ -97,7 +99,12 @@ export async function runNewProjectFlow(context: ProjectContext): Promise<void>
 
   // 3a. Create index.ts with full demo worker
   const entryFilePath = path.join(srcDir, 'index.ts');
-  const workerCode = generateQueueWorkerCode({ queueName, bindingName });
+  const workerCode = generateQueueWorkerCode({
+    queueName,
+    bindingName,
+    maxRetries: choices.maxRetries,
+    retryDelay: choices.retryDelay,
+  });
   await fs.writeFile(entryFilePath, workerCode, 'utf-8');
 
   // 3b. Create event-store.ts
@@ -107,7 +114,12 @@ export async function runNewProjectFlow(context: ProjectContext): Promise<void>
 
   // 3c. Create dashboard.html
   const dashboardPath = path.join(srcDir, 'dashboard.html');
-  const dashboardHTML = generateDashboardHTML();
+  const dashboardHTML = generateDashboardHTML({
+    maxBatchSize: choices.maxBatchSize,
+    maxBatchTimeout: choices.maxBatchTimeout,
+    maxRetries: choices.maxRetries,
+    maxConcurrency: choices.maxConcurrency,
+  });
   await fs.writeFile(dashboardPath, dashboardHTML, 'utf-8');
 
   logger.success('Created queue demo files (index.ts, event-store.ts, dashboard.html)');
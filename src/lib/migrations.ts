@@ -0,0 +1,39 @@
+// Durable Object migration helpers shared by primitives that add DO classes
+
+/**
+ * Compute the next migration tag from the tags already in the config.
+ * Tags follow wrangler's "v1", "v2", ... convention; unrecognised tags
+ * still count so the result never collides with an existing one.
+ */
+export function getNextMigrationTag(existingTags: string[]): string {
+  const versions = existingTags
+    .map((tag) => /^v(\d+)$/.exec(tag))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => Number(match[1]));
+
+  let next = Math.max(existingTags.length, ...versions) + 1;
+  while (existingTags.includes(`v${next}`)) {
+    next++;
+  }
+
+  return `v${next}`;
+}
+
+/**
+ * Read migration tags from wrangler.toml content ([[migrations]] tables)
+ */
+export function getTomlMigrationTags(content: string): string[] {
+  const tags: string[] = [];
+  const blocks = content.split(/^\[\[migrations\]\]\s*$/m).slice(1);
+
+  for (const block of blocks) {
+    // Stop at the next table header
+    const body = block.split(/^\[/m)[0];
+    const match = body.match(/^\s*tag\s*=\s*"([^"]+)"/m);
+    if (match) {
+      tags.push(match[1]);
+    }
+  }
+
+  return tags;
+}
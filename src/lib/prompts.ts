@@ -1,3 +1,4 @@
+import prompts from 'prompts';
 import { coloredPrompts } from './helpers.js';
 
 // Feature selection
@@ -163,16 +164,104 @@ export async function confirmAction(message: string): Promise<boolean> {
 
 // Queue-specific prompts
 
+// Limits Queues accepts for each consumer setting, and the defaults the templates use
+export const CONSUMER_SETTING_LIMITS = {
+  maxBatchSize: { min: 1, max: 100, initial: 4 },
+  maxBatchTimeout: { min: 0, max: 60, initial: 3 },
+  maxRetries: { min: 0, max: 100, initial: 3 },
+  maxConcurrency: { min: 0, max: 250, initial: 0 }, // 0 leaves it to autoscaling
+  retryDelay: { min: 0, max: 43200, initial: 0 },
+};
+
+type ConsumerSetting = keyof typeof CONSUMER_SETTING_LIMITS;
+
+function consumerSettingQuestion(
+  name: ConsumerSetting,
+  message: string,
+  unit: string,
+  isAsked: (values: prompts.Answers<string>) => boolean
+): prompts.PromptObject {
+  const { min, max, initial } = CONSUMER_SETTING_LIMITS[name];
+  return {
+    type: (_prev: number, values: prompts.Answers<string>) => (isAsked(values) ? 'number' : null),
+    name,
+    message,
+    initial,
+    min,
+    max,
+    validate: (value: number) => (value >= min && value <= max) || `Must be between ${min} and ${max}${unit}`,
+  };
+}
+
+/**
+ * "Customize consumer settings?" and the settings it unlocks, shared by every
+ * queue prompt set. http_pull consumers have no batch timeout or concurrency.
+ */
+export function getConsumerSettingsQuestions(
+  askCustomize: (values: prompts.Answers<string>) => boolean = () => true
+): prompts.PromptObject[] {
+  const { maxBatchSize, maxBatchTimeout, maxRetries, maxConcurrency, retryDelay } = CONSUMER_SETTING_LIMITS;
+  const customizing = (values: prompts.Answers<string>) => !!values.customizeConsumer;
+  const customizingPush = (values: prompts.Answers<string>) =>
+    customizing(values) && values.consumerType !== 'http_pull';
+
+  return [
+    {
+      type: (_prev: unknown, values: prompts.Answers<string>) => (askCustomize(values) ? 'confirm' : null),
+      name: 'customizeConsumer',
+      message: 'Customize consumer settings? (batch size, timeout, retries, concurrency, retry delay)',
+      initial: false,
+    },
+    consumerSettingQuestion(
+      'maxBatchSize',
+      `Max batch size? (${maxBatchSize.min}-${maxBatchSize.max} messages)`,
+      '',
+      customizing
+    ),
+    consumerSettingQuestion(
+      'maxBatchTimeout',
+      `Max batch timeout? (${maxBatchTimeout.min}-${maxBatchTimeout.max} seconds)`,
+      ' seconds',
+      customizingPush
+    ),
+    consumerSettingQuestion('maxRetries', `Max retries? (${maxRetries.min}-${maxRetries.max})`, '', customizing),
+    consumerSettingQuestion(
+      'maxConcurrency',
+      `Max concurrent consumer invocations? (1-${maxConcurrency.max}, 0 to autoscale)`,
+      '',
+      customizingPush
+    ),
+    consumerSettingQuestion(
+      'retryDelay',
+      `Delay before a retried message is redelivered? (${retryDelay.min}-${retryDelay.max} seconds)`,
+      ' seconds (12 hours)',
+      customizing
+    ),
+  ];
+}
+
 export interface NewQueueProjectChoices {
   projectName: string;
   queueName: string;
   bindingName: string;
+  customizeConsumer: boolean;
+  maxBatchSize?: number;
+  maxBatchTimeout?: number;
+  maxRetries?: number;
+  maxConcurrency?: number;
+  retryDelay?: number;
 }
 
 export interface ExistingQueueProjectChoices {
   action: 'add-minimal' | 'add-dashboard' | 'new-subfolder';
   queueName: string;
   bindingName: string;
+  customizeConsumer: boolean;
+  maxBatchSize?: number;
+  maxBatchTimeout?: number;
+  maxRetries?: number;
+  maxConcurrency?: number;
+  retryDelay?: number;
 }
 
 export async function promptNewQueueProject(): Promise<NewQueueProjectChoices | null> {
@@ -203,13 +292,17 @@ export async function promptNewQueueProject(): Promise<NewQueueProjectChoices |
       validate: (value: string) =>
         /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., DEMO_QUEUE)',
     },
+    ...getConsumerSettingsQuestions(),
   ]);
 
   if (!response.projectName) {
     return null;
   }
 
-  return response as NewQueueProjectChoices;
+  return {
+    ...response,
+    maxConcurrency: response.maxConcurrency || undefined, // 0 leaves it to autoscaling
+  } as NewQueueProjectChoices;
 }
 
 // Worker-only prompts
@@ -280,11 +373,15 @@ export async function promptExistingQueueProject(): Promise<ExistingQueueProject
       validate: (value: string) =>
         /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., DEMO_QUEUE)',
     },
+    ...getConsumerSettingsQuestions(),
   ]);
 
   if (!response.action) {
     return null;
   }
 
-  return response as ExistingQueueProjectChoices;
+  return {
+    ...response,
+    maxConcurrency: response.maxConcurrency || undefined, // 0 leaves it to autoscaling
+  } as ExistingQueueProjectChoices;
 }
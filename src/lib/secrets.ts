@@ -0,0 +1,65 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { SecretDefinition } from '../primitives/base.js';
+import { putSecret } from './wrangler.js';
+import { logger } from './logger.js';
+
+const DEV_VARS_FILE = '.dev.vars';
+
+// Any of these in .gitignore keeps .dev.vars out of git
+const DEV_VARS_IGNORE_PATTERNS = ['.dev.vars', '.dev.vars*', '/.dev.vars', '/.dev.vars*'];
+
+/**
+ * Add secrets to .dev.vars for wrangler dev, keeping any values already there,
+ * and make sure the file is gitignored
+ */
+export async function writeDevVars(projectDir: string, secrets: SecretDefinition[]): Promise<void> {
+  const devVarsPath = path.join(projectDir, DEV_VARS_FILE);
+  const content = (await fs.pathExists(devVarsPath)) ? await fs.readFile(devVarsPath, 'utf-8') : '';
+
+  const existing = new Set([...content.matchAll(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=/gm)].map((m) => m[1]));
+  const missing = secrets.filter((secret) => !existing.has(secret.name));
+
+  if (missing.length > 0) {
+    const entries = missing
+      .map((secret) => {
+        const comment = secret.description ? `# ${secret.description}\n` : '';
+        return `${comment}${secret.name}=${JSON.stringify(secret.value ?? '')}\n`;
+      })
+      .join('');
+    const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+
+    await fs.writeFile(devVarsPath, content + separator + entries, 'utf-8');
+    logger.success(`Added ${missing.map((s) => s.name).join(', ')} to ${DEV_VARS_FILE}`);
+  }
+
+  await ensureDevVarsIgnored(projectDir);
+}
+
+async function ensureDevVarsIgnored(projectDir: string): Promise<void> {
+  const gitignorePath = path.join(projectDir, '.gitignore');
+  const content = (await fs.pathExists(gitignorePath)) ? await fs.readFile(gitignorePath, 'utf-8') : '';
+
+  const lines = content.split('\n').map((line) => line.trim());
+  if (lines.some((line) => DEV_VARS_IGNORE_PATTERNS.includes(line))) {
+    return;
+  }
+
+  const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+  await fs.writeFile(gitignorePath, `${content}${separator}\n# Local secrets for wrangler dev\n.dev.vars*\n`, 'utf-8');
+  logger.success(`Added ${DEV_VARS_FILE} to .gitignore`);
+}
+
+/**
+ * Push secrets that have a value with wrangler secret put; the rest are listed
+ * so they can be set by hand
+ */
+export async function putSecrets(projectDir: string, secrets: SecretDefinition[]): Promise<void> {
+  for (const secret of secrets) {
+    if (secret.value) {
+      await putSecret({ name: secret.name, value: secret.value, cwd: projectDir });
+    } else {
+      logger.info(`Set ${secret.name} before using it in production: npx wrangler secret put ${secret.name}`);
+    }
+  }
+}
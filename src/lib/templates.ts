@@ -3,6 +3,17 @@
 export interface QueueTemplateOptions {
   queueName: string;
   bindingName: string;
+  // Consumer settings written to the wrangler config
+  maxRetries?: number;
+  retryDelay?: number;
+}
+
+export interface DashboardOptions {
+  // Consumer settings written to the wrangler config, shown in the producer panel
+  maxBatchSize?: number;
+  maxBatchTimeout?: number;
+  maxRetries?: number;
+  maxConcurrency?: number;
 }
 
 export function generateMinimalQueueWorker(
@@ -107,6 +118,8 @@ export function generateTsConfig(): string {
 
 // Full queue demo with Durable Objects and Dashboard
 export function generateQueueWorkerCode(options: QueueTemplateOptions): string {
+  const { maxRetries = 3, retryDelay = 0 } = options;
+
   return `// Cloudflare Workers Queue - Producer and Consumer
 // This worker acts as both producer (fetch handler) and consumer (queue handler)
 // Cloudflare handles scaling and separation at runtime
@@ -276,7 +289,9 @@ export default {
       await logEvent(store, "batch_failed", "retry", {
         batchId,
         attempts: maxAttempts,
-        willRetry: maxAttempts < 3,
+        // max_retries = ${maxRetries}, so a message is delivered at most ${maxRetries + 1} times
+        willRetry: maxAttempts <= ${maxRetries},
+        retryDelaySeconds: ${retryDelay},
       });
       batch.retryAll();
     }
@@ -379,7 +394,9 @@ export class EventStore {
 `;
 }
 
-export function generateDashboardHTML(): string {
+export function generateDashboardHTML(options: DashboardOptions = {}): string {
+  const { maxBatchSize = 4, maxBatchTimeout = 3, maxRetries = 3, maxConcurrency } = options;
+
   return `<!DOCTYPE html>
  <html lang="en">
  
@@ -868,7 +885,7 @@ export function generateDashboardHTML(): string {
            <div class="queue-status">
              <span>Queue</span>
              <span class="queue-count">
-               <span id="queue-count">0</span>/4
+               <span id="queue-count">0</span>/${maxBatchSize}
              </span>
            </div>
  
@@ -876,7 +893,7 @@ export function generateDashboardHTML(): string {
              <!-- Messages will be inserted here -->
            </div>
  
-           <div class="timeout-info">Batch timeout: 3000ms</div>
+           <div class="timeout-info">Batch timeout: ${maxBatchTimeout * 1000}ms · Max retries: ${maxRetries} · Concurrency: ${maxConcurrency ?? 'auto'}</div>
          </div>
        </section>
  
@@ -984,7 +1001,7 @@ export function generateDashboardHTML(): string {
        // Show the ones that haven't been delivered yet (still waiting)
        const queueMessages = enqueuedMessages
          .slice(totalDelivered)  // Skip the ones already picked up
-         .slice(-4);             // Show last 4 waiting
+         .slice(-${maxBatchSize});             // Show up to one batch waiting
  
        const queueContainer = document.getElementById('queue-messages');
        const queueCount = document.getElementById('queue-count');
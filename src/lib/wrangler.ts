@@ -10,13 +10,14 @@ export interface CreateNamespaceOptions {
   bindingName: string;
   updateConfig?: boolean;
   env?: string;
+  cwd?: string;
 }
 
 export async function createKVNamespace(
   options: CreateNamespaceOptions
 ): Promise<string | null> {
   try {
-    const { bindingName, updateConfig = false, env } = options;
+    const { bindingName, updateConfig = false, env, cwd } = options;
 
     logger.step(`Creating KV namespace: ${bindingName}...`);
 
@@ -32,7 +33,7 @@ export async function createKVNamespace(
       args.push('--env', env);
     }
 
-    const { stdout } = await execa('npx', args);
+    const { stdout } = await execa('npx', args, { cwd });
 
     // Parse the namespace ID from wrangler output
     // Example output: "🌀 Creating namespace with title \"worker-APP_CONFIG\""
@@ -75,6 +76,100 @@ export async function createKVNamespace(
   }
 }
 
+export interface CreateD1DatabaseOptions {
+  databaseName: string;
+  cwd?: string;
+}
+
+export async function createD1Database(
+  options: CreateD1DatabaseOptions
+): Promise<string | null> {
+  try {
+    const { databaseName, cwd } = options;
+
+    logger.step(`Creating D1 database: ${databaseName}...`);
+
+    const { stdout } = await execa('npx', ['wrangler', 'd1', 'create', databaseName], { cwd });
+
+    // Parse the database ID from wrangler output, which prints either
+    // TOML (database_id = "...") or JSON ("database_id": "...") depending on version
+    const idMatch = stdout.match(/database_id"?\s*[=:]\s*"([^"]+)"/);
+    if (idMatch && idMatch[1]) {
+      logger.success(`Created D1 database with ID: ${idMatch[1]}`);
+      return idMatch[1];
+    }
+
+    logger.warn('Could not parse database ID from wrangler output');
+    logger.info('Wrangler output:');
+    console.log(stdout);
+    return null;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to create D1 database: ${error.message}`);
+    }
+    return null;
+  }
+}
+
+export interface CreateHyperdriveConfigOptions {
+  configName: string;
+  connectionString: string;
+  cwd?: string;
+}
+
+export async function createHyperdriveConfig(
+  options: CreateHyperdriveConfigOptions
+): Promise<string | null> {
+  try {
+    const { configName, connectionString, cwd } = options;
+
+    logger.step(`Creating Hyperdrive config: ${configName}...`);
+
+    const { stdout } = await execa(
+      'npx',
+      ['wrangler', 'hyperdrive', 'create', configName, `--connection-string=${connectionString}`],
+      { cwd }
+    );
+
+    // Parse the Hyperdrive ID from wrangler output (TOML or JSON snippet)
+    const idMatch = stdout.match(/"?id"?\s*[=:]\s*"([a-f0-9]{32})"/);
+    if (idMatch && idMatch[1]) {
+      logger.success(`Created Hyperdrive config with ID: ${idMatch[1]}`);
+      return idMatch[1];
+    }
+
+    logger.warn('Could not parse Hyperdrive ID from wrangler output');
+    return null;
+  } catch (error) {
+    // Error messages from execa include the command line, which contains the connection string
+    logger.error('Failed to create Hyperdrive config (check the connection string and that the database is reachable)');
+    return null;
+  }
+}
+
+export interface PutSecretOptions {
+  name: string;
+  value: string;
+  cwd?: string;
+}
+
+export async function putSecret(options: PutSecretOptions): Promise<boolean> {
+  const { name, value, cwd } = options;
+
+  try {
+    logger.step(`Setting secret: ${name}...`);
+
+    // Value goes over stdin so it never shows up in the process list or shell history
+    await execa('npx', ['wrangler', 'secret', 'put', name], { cwd, input: value });
+
+    logger.success(`Secret "${name}" set`);
+    return true;
+  } catch (error) {
+    logger.error(`Failed to set secret "${name}". Run: npx wrangler secret put ${name}`);
+    return false;
+  }
+}
+
 export async function checkWranglerInstalled(): Promise<boolean> {
   try {
     await execa('npx', ['wrangler', '--version']);
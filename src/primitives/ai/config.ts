@@ -0,0 +1,90 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface AIConfig {
+  bindingName: string;
+}
+
+export async function patchWranglerConfigForAI(
+  configPath: string,
+  config: AIConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForAI(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForAI(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForAI(
+  configPath: string,
+  content: string,
+  config: AIConfig
+): Promise<boolean> {
+  try {
+    const { bindingName } = config;
+
+    // A Worker can only have one AI binding
+    if (/^\[ai\]/m.test(content)) {
+      logger.warn('An AI binding already exists in config');
+      return true;
+    }
+
+    const updatedContent = content + `
+# Workers AI
+[ai]
+binding = "${bindingName}"
+`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with AI binding');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForAI(
+  configPath: string,
+  content: string,
+  config: AIConfig
+): Promise<boolean> {
+  try {
+    const { bindingName } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // A Worker can only have one AI binding
+    if (parsedConfig.ai) {
+      logger.warn('An AI binding already exists in config');
+      return true;
+    }
+
+    const edits = jsonc.modify(content, ['ai'], { binding: bindingName }, {});
+    const updatedContent = jsonc.applyEdits(content, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with AI binding');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,92 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { promptNewAIProject, promptExistingAIProject } from './prompts.js';
+import { patchWranglerConfigForAI } from './config.js';
+import { generateAIWorkerCode, generateAIRouteCode } from './templates.js';
+import { patchEnvBindings, patchFetchRoute } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface AIPrimitiveConfig extends PrimitiveConfig {
+  bindingName: string;
+  textModel: string;
+  embeddingModel: string;
+}
+
+export const AIPrimitive: Primitive = {
+  id: 'ai',
+  name: 'Workers AI',
+  description: 'AI binding with text generation and embedding routes',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<AIPrimitiveConfig | null> {
+    const choices = await promptNewAIProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<AIPrimitiveConfig | null> {
+    const choices = await promptExistingAIProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const aiConfig = config as AIPrimitiveConfig;
+    return await patchWranglerConfigForAI(configPath, {
+      bindingName: aiConfig.bindingName,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const aiConfig = config as AIPrimitiveConfig;
+    const templateOptions = {
+      bindingName: aiConfig.bindingName,
+      textModel: aiConfig.textModel,
+      embeddingModel: aiConfig.embeddingModel,
+    };
+
+    // Existing project: add ai.ts next to the entry file and route to it
+    if (aiConfig.entryFilePath) {
+      const aiPath = path.join(path.dirname(aiConfig.entryFilePath), 'ai.ts');
+      if (await fs.pathExists(aiPath)) {
+        logger.warn('ai.ts already exists, skipping');
+      } else {
+        await fs.writeFile(aiPath, generateAIRouteCode(templateOptions), 'utf-8');
+        logger.success('Created ai.ts');
+      }
+
+      await patchEnvBindings(aiConfig.entryFilePath, [
+        { name: aiConfig.bindingName, type: 'Ai' },
+      ]);
+      await patchFetchRoute(aiConfig.entryFilePath, {
+        pathPrefix: '/ai',
+        handlerName: 'handleAi',
+        importPath: './ai',
+      });
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate index.ts and ai.ts
+    await fs.writeFile(path.join(srcDir, 'index.ts'), generateAIWorkerCode(templateOptions), 'utf-8');
+    await fs.writeFile(path.join(srcDir, 'ai.ts'), generateAIRouteCode(templateOptions), 'utf-8');
+
+    logger.success('Created Workers AI demo files (index.ts, ai.ts)');
+  },
+
+  getDeploymentInfo() {
+    return {
+      successMessage: '🎉 Your Workers AI worker is live!',
+      nextSteps: [
+        'Workers AI always runs remotely, so local requests use your account',
+        `Generate: curl -X POST http://localhost:8787/ai/generate -d '{"prompt":"Write a haiku about queues"}'`,
+        `Embed: curl -X POST http://localhost:8787/ai/embed -d '{"text":["hello","world"]}'`,
+      ],
+    };
+  },
+};
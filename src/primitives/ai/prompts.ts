@@ -0,0 +1,129 @@
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export interface NewAIProjectChoices {
+  projectName: string;
+  bindingName: string;
+  textModel: string;
+  embeddingModel: string;
+}
+
+export interface ExistingAIProjectChoices {
+  bindingName: string;
+  textModel: string;
+  embeddingModel: string;
+}
+
+export const AI_TEXT_MODELS = [
+  {
+    title: 'Llama 3.3 70B',
+    description: 'Best quality, slower',
+    value: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+  },
+  {
+    title: 'Llama 3.1 8B',
+    description: 'Fast and cheap',
+    value: '@cf/meta/llama-3.1-8b-instruct-fp8',
+  },
+  {
+    title: 'Mistral Small 3.1 24B',
+    description: 'Long context, good at instructions',
+    value: '@cf/mistralai/mistral-small-3.1-24b-instruct',
+  },
+];
+
+// Dimensions must match any Vectorize index the embeddings are stored in
+export const AI_EMBEDDING_MODELS = [
+  {
+    title: 'BGE Base (768 dimensions)',
+    value: '@cf/baai/bge-base-en-v1.5',
+    dimensions: 768,
+  },
+  {
+    title: 'BGE Small (384 dimensions)',
+    value: '@cf/baai/bge-small-en-v1.5',
+    dimensions: 384,
+  },
+  {
+    title: 'BGE Large (1024 dimensions)',
+    value: '@cf/baai/bge-large-en-v1.5',
+    dimensions: 1024,
+  },
+];
+
+export async function promptNewAIProject(): Promise<NewAIProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with Workers AI!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-ai-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-ai-worker)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'AI',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., AI)',
+    },
+    {
+      type: 'select',
+      name: 'textModel',
+      message: 'Text generation model?',
+      choices: AI_TEXT_MODELS,
+      initial: 0,
+    },
+    {
+      type: 'select',
+      name: 'embeddingModel',
+      message: 'Embedding model?',
+      choices: AI_EMBEDDING_MODELS,
+      initial: 0,
+    },
+  ]);
+
+  if (!response.projectName || !response.embeddingModel) {
+    return null;
+  }
+
+  return response as NewAIProjectChoices;
+}
+
+export async function promptExistingAIProject(): Promise<ExistingAIProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'AI',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., AI)',
+    },
+    {
+      type: 'select',
+      name: 'textModel',
+      message: 'Text generation model?',
+      choices: AI_TEXT_MODELS,
+      initial: 0,
+    },
+    {
+      type: 'select',
+      name: 'embeddingModel',
+      message: 'Embedding model?',
+      choices: AI_EMBEDDING_MODELS,
+      initial: 0,
+    },
+  ]);
+
+  if (!response.embeddingModel) {
+    return null;
+  }
+
+  return response as ExistingAIProjectChoices;
+}
@@ -0,0 +1,145 @@
+// Workers AI template interfaces and generators
+
+import { AI_EMBEDDING_MODELS } from './prompts.js';
+
+export interface AITemplateOptions {
+  bindingName: string;
+  textModel: string;
+  embeddingModel: string;
+}
+
+export function getEmbeddingDimensions(embeddingModel: string): number {
+  return AI_EMBEDDING_MODELS.find((m) => m.value === embeddingModel)?.dimensions ?? 768;
+}
+
+export function generateAIWorkerCode(options: AITemplateOptions): string {
+  return `// Cloudflare Workers AI demo
+// The model wrapper and /ai routes live in ai.ts
+
+import { handleAi } from "./ai";
+
+interface Env {
+  ${options.bindingName}: Ai;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith("/ai")) {
+      return handleAi(request, env);
+    }
+
+    return new Response("Workers AI Demo\\n\\nTry POST /ai/generate or POST /ai/embed", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateAIRouteCode(options: AITemplateOptions): string {
+  const { bindingName, textModel, embeddingModel } = options;
+  const dimensions = getEmbeddingDimensions(embeddingModel);
+
+  return `// Workers AI routes
+// POST /ai/generate  { "prompt": "..." }           → { response }
+// POST /ai/embed     { "text": "..." | ["...", ...] } → { dimensions, vectors }
+//
+// Handlers only talk to the AiModel interface. The Workers AI binding is wrapped
+// by createWorkersAiModel(); tests can pass createStubAiModel() instead.
+
+export interface AiEnv {
+  ${bindingName}: Ai;
+}
+
+export const TEXT_MODEL = "${textModel}";
+export const EMBEDDING_MODEL = "${embeddingModel}";
+export const EMBEDDING_DIMENSIONS = ${dimensions};
+
+export interface AiModel {
+  generateText(prompt: string): Promise<string>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export function createWorkersAiModel(ai: Ai): AiModel {
+  return {
+    async generateText(prompt) {
+      const result = (await ai.run(TEXT_MODEL, {
+        messages: [
+          { role: "system", content: "You are a concise, helpful assistant." },
+          { role: "user", content: prompt },
+        ],
+      })) as { response?: string };
+      return result.response ?? "";
+    },
+
+    async embed(texts) {
+      const result = (await ai.run(EMBEDDING_MODEL, { text: texts })) as { data?: number[][] };
+      return result.data ?? [];
+    },
+  };
+}
+
+// Deterministic stand-in for tests and offline development - no network calls
+export function createStubAiModel(): AiModel {
+  return {
+    async generateText(prompt) {
+      return \`[stub] \${prompt}\`;
+    },
+
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+        for (let i = 0; i < text.length; i++) {
+          vector[i % EMBEDDING_DIMENSIONS] += text.charCodeAt(i) / 1000;
+        }
+        return vector;
+      });
+    },
+  };
+}
+
+export async function handleAi(
+  request: Request,
+  env: AiEnv,
+  model: AiModel = createWorkersAiModel(env.${bindingName})
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  let body: { prompt?: string; text?: string | string[] };
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  // POST /ai/generate - text generation
+  if (url.pathname === "/ai/generate") {
+    if (!body.prompt) {
+      return Response.json({ error: "Missing \\"prompt\\"" }, { status: 400 });
+    }
+
+    const response = await model.generateText(body.prompt);
+    return Response.json({ model: TEXT_MODEL, response });
+  }
+
+  // POST /ai/embed - embeddings for one or more strings
+  if (url.pathname === "/ai/embed") {
+    if (!body.text) {
+      return Response.json({ error: "Missing \\"text\\"" }, { status: 400 });
+    }
+
+    const texts = Array.isArray(body.text) ? body.text : [body.text];
+    const vectors = await model.embed(texts);
+    return Response.json({ model: EMBEDDING_MODEL, dimensions: EMBEDDING_DIMENSIONS, vectors });
+  }
+
+  return new Response("Not found", { status: 404 });
+}
+`;
+}
@@ -0,0 +1,99 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface AnalyticsEngineConfig {
+  datasetName: string;
+  bindingName: string;
+}
+
+export async function patchWranglerConfigForAnalyticsEngine(
+  configPath: string,
+  config: AnalyticsEngineConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForAnalyticsEngine(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForAnalyticsEngine(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForAnalyticsEngine(
+  configPath: string,
+  content: string,
+  config: AnalyticsEngineConfig
+): Promise<boolean> {
+  try {
+    const { datasetName, bindingName } = config;
+
+    // Check if dataset already exists
+    if (content.includes(`dataset = "${datasetName}"`)) {
+      logger.warn(`Analytics Engine dataset "${datasetName}" already exists in config`);
+      return true;
+    }
+
+    // Datasets are created automatically on the first write
+    const updatedContent = content + `
+# Analytics Engine
+[[analytics_engine_datasets]]
+binding = "${bindingName}"
+dataset = "${datasetName}"
+`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with Analytics Engine configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForAnalyticsEngine(
+  configPath: string,
+  content: string,
+  config: AnalyticsEngineConfig
+): Promise<boolean> {
+  try {
+    const { datasetName, bindingName } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if dataset already exists
+    const datasets = parsedConfig.analytics_engine_datasets || [];
+    if (datasets.some((d: any) => d.dataset === datasetName)) {
+      logger.warn(`Analytics Engine dataset "${datasetName}" already exists in config`);
+      return true;
+    }
+
+    // Datasets are created automatically on the first write
+    const newDataset = {
+      binding: bindingName,
+      dataset: datasetName
+    };
+    const edits = jsonc.modify(content, ['analytics_engine_datasets'], [...datasets, newDataset], {});
+    const updatedContent = jsonc.applyEdits(content, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with Analytics Engine configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,171 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig, SecretDefinition } from '../base.js';
+import { QueuesPrimitive, QueuesPrimitiveConfig } from '../queues/index.js';
+import {
+  promptNewAnalyticsEngineProject,
+  promptExistingAnalyticsEngineProject,
+} from './prompts.js';
+import { patchWranglerConfigForAnalyticsEngine } from './config.js';
+import { generateAnalyticsEngineWorkerCode, generateAnalyticsCode } from './templates.js';
+import {
+  patchEnvBindings,
+  patchFetchRoute,
+  patchHandlerStatements,
+} from '../../lib/ast-patcher.js';
+import { putSecrets } from '../../lib/secrets.js';
+import { logger } from '../../lib/logger.js';
+
+export interface AnalyticsEnginePrimitiveConfig extends PrimitiveConfig {
+  datasetName: string;
+  bindingName: string;
+  recordQueueMetrics: boolean;
+  queueName?: string; // New projects only: queue for the Queues dashboard
+  queueBindingName?: string;
+}
+
+// New projects with queue metrics are generated by QueuesPrimitive, with metrics recorded in its consumer
+function getQueuesConfig(config: AnalyticsEnginePrimitiveConfig): QueuesPrimitiveConfig {
+  return {
+    projectName: config.projectName ?? '',
+    queueName: config.queueName!,
+    bindingName: config.queueBindingName!,
+    analytics: { bindingName: config.bindingName },
+  };
+}
+
+function usesQueuesDashboard(config: AnalyticsEnginePrimitiveConfig): boolean {
+  return config.recordQueueMetrics && !config.entryFilePath && !!config.queueName;
+}
+
+export const AnalyticsEnginePrimitive: Primitive = {
+  id: 'analytics-engine',
+  name: 'Analytics Engine',
+  description: 'Dataset with typed metric writes, optionally recording queue batch metrics',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<AnalyticsEnginePrimitiveConfig | null> {
+    const choices = await promptNewAnalyticsEngineProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<AnalyticsEnginePrimitiveConfig | null> {
+    const choices = await promptExistingAnalyticsEngineProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const analyticsConfig = config as AnalyticsEnginePrimitiveConfig;
+
+    if (usesQueuesDashboard(analyticsConfig) && !(await QueuesPrimitive.patchConfig!(configPath, getQueuesConfig(analyticsConfig)))) {
+      return false;
+    }
+
+    return await patchWranglerConfigForAnalyticsEngine(configPath, {
+      datasetName: analyticsConfig.datasetName,
+      bindingName: analyticsConfig.bindingName,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const analyticsConfig = config as AnalyticsEnginePrimitiveConfig;
+    const templateOptions = {
+      datasetName: analyticsConfig.datasetName,
+      bindingName: analyticsConfig.bindingName,
+    };
+
+    // Existing project: add analytics.ts next to the entry file and route to it
+    if (analyticsConfig.entryFilePath) {
+      const analyticsPath = path.join(path.dirname(analyticsConfig.entryFilePath), 'analytics.ts');
+      if (await fs.pathExists(analyticsPath)) {
+        logger.warn('analytics.ts already exists, skipping');
+      } else {
+        await fs.writeFile(analyticsPath, generateAnalyticsCode(templateOptions), 'utf-8');
+        logger.success('Created analytics.ts');
+      }
+
+      await patchEnvBindings(analyticsConfig.entryFilePath, [
+        { name: analyticsConfig.bindingName, type: 'AnalyticsEngineDataset' },
+      ]);
+      await patchFetchRoute(analyticsConfig.entryFilePath, {
+        pathPrefix: '/analytics',
+        handlerName: 'handleAnalytics',
+        importPath: './analytics',
+      });
+
+      if (analyticsConfig.recordQueueMetrics) {
+        await patchHandlerStatements(analyticsConfig.entryFilePath, {
+          name: 'queue',
+          statements: ([batch, env]) => `recordBatchMetrics(${env}.${analyticsConfig.bindingName}, ${batch});`,
+          defaultParameterNames: ['batch', 'env'],
+          namedImports: ['recordBatchMetrics'],
+          importPath: './analytics',
+        });
+      }
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate the entry file (Queues dashboard or plain demo) and analytics.ts
+    if (usesQueuesDashboard(analyticsConfig)) {
+      await QueuesPrimitive.generateFiles(projectDir, getQueuesConfig(analyticsConfig));
+    } else {
+      await fs.writeFile(
+        path.join(srcDir, 'index.ts'),
+        generateAnalyticsEngineWorkerCode(templateOptions),
+        'utf-8'
+      );
+    }
+    await fs.writeFile(path.join(srcDir, 'analytics.ts'), generateAnalyticsCode(templateOptions), 'utf-8');
+
+    logger.success('Created analytics.ts');
+  },
+
+  // The SQL API route needs account credentials; they're never written to wrangler config
+  getSecrets(): SecretDefinition[] {
+    return [
+      { name: 'CF_ACCOUNT_ID', description: 'Account ID for the Analytics Engine SQL API' },
+      { name: 'CF_API_TOKEN', description: 'API token with Account Analytics: Read' },
+    ];
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const analyticsConfig = config as AnalyticsEnginePrimitiveConfig;
+
+    // Datasets are created on first write; only the dashboard queue needs to exist first
+    if (usesQueuesDashboard(analyticsConfig)) {
+      await QueuesPrimitive.preDeploySteps!(projectDir, getQueuesConfig(analyticsConfig));
+    }
+
+    await putSecrets(projectDir, AnalyticsEnginePrimitive.getSecrets!(config));
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const analyticsConfig = config as AnalyticsEnginePrimitiveConfig;
+    const nextSteps = usesQueuesDashboard(analyticsConfig)
+      ? ['Open http://localhost:8787 and enqueue messages - every batch is recorded to Analytics Engine']
+      : [`Record an event: curl -X POST http://localhost:8787/analytics -d '{"label":"signup"}'`];
+
+    nextSteps.push(
+      'Fill in CF_ACCOUNT_ID and CF_API_TOKEN in .dev.vars, then query: curl http://localhost:8787/analytics'
+    );
+
+    return {
+      successMessage: `🎉 Your Worker is writing to the ${analyticsConfig.datasetName} dataset!`,
+      nextSteps,
+      setupCommands: [
+        ...(usesQueuesDashboard(analyticsConfig)
+          ? [`npx wrangler queues create ${analyticsConfig.queueName}`]
+          : []),
+        'npx wrangler secret put CF_ACCOUNT_ID',
+        'npx wrangler secret put CF_API_TOKEN',
+      ],
+    };
+  },
+};
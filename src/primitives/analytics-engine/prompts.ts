@@ -0,0 +1,110 @@
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export interface NewAnalyticsEngineProjectChoices {
+  projectName: string;
+  datasetName: string;
+  bindingName: string;
+  recordQueueMetrics: boolean;
+  queueName?: string;
+  queueBindingName?: string;
+}
+
+export interface ExistingAnalyticsEngineProjectChoices {
+  datasetName: string;
+  bindingName: string;
+  recordQueueMetrics: boolean;
+}
+
+export async function promptNewAnalyticsEngineProject(): Promise<NewAnalyticsEngineProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with Analytics Engine!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-analytics-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-analytics-worker)',
+    },
+    {
+      type: 'text',
+      name: 'datasetName',
+      message: 'Dataset name?',
+      initial: 'demo_dataset',
+      validate: (value: string) =>
+        /^[A-Za-z0-9_]+$/.test(value) || 'Must be letters, numbers and underscores (e.g., demo_dataset)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'ANALYTICS',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., ANALYTICS)',
+    },
+    {
+      type: 'confirm',
+      name: 'recordQueueMetrics',
+      message: 'Record per-batch queue metrics (includes the Queues dashboard)?',
+      initial: false,
+    },
+    {
+      type: (prev: boolean) => (prev ? 'text' : null),
+      name: 'queueName',
+      message: 'Queue name?',
+      initial: 'demo-queue',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-queue)',
+    },
+    {
+      type: (prev: string) => (prev ? 'text' : null),
+      name: 'queueBindingName',
+      message: 'Queue binding name?',
+      initial: 'DEMO_QUEUE',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., DEMO_QUEUE)',
+    },
+  ]);
+
+  if (!response.projectName || response.recordQueueMetrics === undefined) {
+    return null;
+  }
+
+  return response as NewAnalyticsEngineProjectChoices;
+}
+
+export async function promptExistingAnalyticsEngineProject(): Promise<ExistingAnalyticsEngineProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'datasetName',
+      message: 'Dataset name?',
+      initial: 'demo_dataset',
+      validate: (value: string) =>
+        /^[A-Za-z0-9_]+$/.test(value) || 'Must be letters, numbers and underscores (e.g., demo_dataset)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'ANALYTICS',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., ANALYTICS)',
+    },
+    {
+      type: 'confirm',
+      name: 'recordQueueMetrics',
+      message: 'Record per-batch metrics in your existing queue consumer?',
+      initial: false,
+    },
+  ]);
+
+  if (!response.bindingName || response.recordQueueMetrics === undefined) {
+    return null;
+  }
+
+  return response as ExistingAnalyticsEngineProjectChoices;
+}
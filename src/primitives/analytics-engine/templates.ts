@@ -0,0 +1,157 @@
+// Analytics Engine template interfaces and generators
+
+export interface AnalyticsEngineTemplateOptions {
+  datasetName: string;
+  bindingName: string;
+}
+
+export function generateAnalyticsEngineWorkerCode(options: AnalyticsEngineTemplateOptions): string {
+  return `// Cloudflare Workers Analytics Engine demo
+// The metric helpers and /analytics routes live in analytics.ts
+
+import { handleAnalytics } from "./analytics";
+
+interface Env {
+  ${options.bindingName}: AnalyticsEngineDataset;
+  CF_ACCOUNT_ID?: string;
+  CF_API_TOKEN?: string;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith("/analytics")) {
+      return handleAnalytics(request, env);
+    }
+
+    return new Response("Analytics Engine Demo\\n\\nTry POST /analytics, then GET /analytics", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateAnalyticsCode(options: AnalyticsEngineTemplateOptions): string {
+  const { datasetName, bindingName } = options;
+
+  return `// Analytics Engine helpers for the "${datasetName}" dataset
+// POST /analytics  { "label": "signup" }  → write a data point
+// GET  /analytics                        → last 24h, grouped by event and label
+//
+// Analytics Engine columns are positional. MetricPoint names them once so every
+// writer uses the same layout, and the SQL below reads them back by position:
+//
+//   index1  → index       (sampling key)
+//   blob1   → event       blob2 → label       blob3 → outcome
+//   double1 → count       double2 → durationMs
+//   double3 → attempts    double4 → latencyMs
+
+export interface AnalyticsEnv {
+  ${bindingName}: AnalyticsEngineDataset;
+  // Only needed to query the SQL API (put them in .dev.vars / wrangler secret put)
+  CF_ACCOUNT_ID?: string;
+  CF_API_TOKEN?: string;
+}
+
+export interface MetricPoint {
+  index: string;
+  event: string;
+  label?: string;
+  outcome?: string;
+  count?: number;
+  durationMs?: number;
+  attempts?: number;
+  latencyMs?: number;
+}
+
+// writeDataPoint doesn't block the response; writes are batched by the runtime
+export function writeMetric(dataset: AnalyticsEngineDataset, point: MetricPoint): void {
+  dataset.writeDataPoint({
+    indexes: [point.index],
+    blobs: [point.event, point.label ?? null, point.outcome ?? null],
+    doubles: [
+      point.count ?? 1,
+      point.durationMs ?? 0,
+      point.attempts ?? 0,
+      point.latencyMs ?? 0,
+    ],
+  });
+}
+
+// One data point per delivered queue batch: size, highest attempt count and
+// how long the oldest message waited in the queue
+export function recordBatchMetrics(dataset: AnalyticsEngineDataset, batch: MessageBatch): void {
+  const oldest = Math.min(...batch.messages.map((message) => message.timestamp.getTime()));
+  const attempts = Math.max(...batch.messages.map((message) => message.attempts));
+
+  writeMetric(dataset, {
+    index: batch.queue,
+    event: "queue_batch",
+    label: batch.queue,
+    outcome: attempts > 1 ? "redelivery" : "first_delivery",
+    count: batch.messages.length,
+    attempts,
+    latencyMs: Date.now() - oldest,
+  });
+}
+
+const SUMMARY_SQL = \`
+  SELECT
+    blob1 AS event,
+    blob2 AS label,
+    SUM(_sample_interval * double1) AS count,
+    SUM(_sample_interval * double2) / SUM(_sample_interval) AS avg_duration_ms
+  FROM ${datasetName}
+  WHERE timestamp > NOW() - INTERVAL '1' DAY
+  GROUP BY event, label
+  ORDER BY count DESC
+  LIMIT 20
+\`;
+
+export async function handleAnalytics(request: Request, env: AnalyticsEnv): Promise<Response> {
+  // POST /analytics - record a demo event
+  if (request.method === "POST") {
+    const startedAt = Date.now();
+    const { label = "demo" } = await request.json<{ label?: string }>().catch(() => ({ label: undefined }));
+
+    writeMetric(env.${bindingName}, {
+      index: label,
+      event: "demo_event",
+      label,
+      outcome: "ok",
+      durationMs: Date.now() - startedAt,
+    });
+
+    return Response.json({ recorded: label }, { status: 202 });
+  }
+
+  // GET /analytics - query the dataset through the SQL API
+  if (request.method === "GET") {
+    if (!env.CF_ACCOUNT_ID || !env.CF_API_TOKEN) {
+      return Response.json(
+        { error: "Set CF_ACCOUNT_ID and CF_API_TOKEN (Account Analytics: Read) to query the dataset" },
+        { status: 501 }
+      );
+    }
+
+    const response = await fetch(
+      \`https://api.cloudflare.com/client/v4/accounts/\${env.CF_ACCOUNT_ID}/analytics_engine/sql\`,
+      {
+        method: "POST",
+        headers: { Authorization: \`Bearer \${env.CF_API_TOKEN}\` },
+        body: SUMMARY_SQL,
+      }
+    );
+
+    return new Response(response.body, {
+      status: response.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response("Method not allowed", { status: 405 });
+}
+`;
+}
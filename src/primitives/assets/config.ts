@@ -0,0 +1,103 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+import { NotFoundHandling, RunWorkerFirst } from './prompts.js';
+
+export interface AssetsConfig {
+  directory: string;
+  bindingName: string;
+  notFoundHandling: NotFoundHandling;
+  runWorkerFirst: RunWorkerFirst;
+}
+
+export async function patchWranglerConfigForAssets(
+  configPath: string,
+  config: AssetsConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForAssets(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForAssets(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForAssets(
+  configPath: string,
+  content: string,
+  config: AssetsConfig
+): Promise<boolean> {
+  try {
+    const { directory, bindingName, notFoundHandling, runWorkerFirst } = config;
+
+    // A Worker has a single assets directory
+    if (/^\[assets\]/m.test(content)) {
+      logger.warn('Assets are already configured');
+      return true;
+    }
+
+    const updatedContent = content + `
+# Static assets
+[assets]
+directory = "./${directory}"
+binding = "${bindingName}"
+not_found_handling = "${notFoundHandling}"
+run_worker_first = ${JSON.stringify(runWorkerFirst)}
+`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with static assets');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForAssets(
+  configPath: string,
+  content: string,
+  config: AssetsConfig
+): Promise<boolean> {
+  try {
+    const { directory, bindingName, notFoundHandling, runWorkerFirst } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // A Worker has a single assets directory
+    if (parsedConfig.assets) {
+      logger.warn('Assets are already configured');
+      return true;
+    }
+
+    const assets = {
+      directory: `./${directory}`,
+      binding: bindingName,
+      not_found_handling: notFoundHandling,
+      run_worker_first: runWorkerFirst
+    };
+    const edits = jsonc.modify(content, ['assets'], assets, {});
+    const updatedContent = jsonc.applyEdits(content, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with static assets');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,148 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { QueuesPrimitive, QueuesPrimitiveConfig } from '../queues/index.js';
+import {
+  NotFoundHandling,
+  RunWorkerFirst,
+  promptNewAssetsProject,
+  promptExistingAssetsProject,
+} from './prompts.js';
+import { patchWranglerConfigForAssets } from './config.js';
+import { generateAssetsWorkerCode, generateAssetsIndexHTML } from './templates.js';
+import { patchEnvBindings, patchFetchFallthrough } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface AssetsPrimitiveConfig extends PrimitiveConfig {
+  directory: string;
+  bindingName: string;
+  notFoundHandling?: NotFoundHandling;
+  runWorkerFirst?: RunWorkerFirst;
+  serveQueueDashboard?: boolean; // New projects only: the Queues dashboard becomes index.html
+  queueName?: string;
+  queueBindingName?: string;
+}
+
+// New projects serving the dashboard are generated by QueuesPrimitive, with index.html in the assets directory
+function getQueuesConfig(config: AssetsPrimitiveConfig): QueuesPrimitiveConfig {
+  return {
+    projectName: config.projectName ?? '',
+    queueName: config.queueName!,
+    bindingName: config.queueBindingName!,
+    assets: { bindingName: config.bindingName, directory: config.directory },
+  };
+}
+
+function usesQueuesDashboard(config: AssetsPrimitiveConfig): boolean {
+  return !!config.serveQueueDashboard && !config.entryFilePath && !!config.queueName;
+}
+
+export const AssetsPrimitive: Primitive = {
+  id: 'assets',
+  name: 'Static Assets',
+  description: 'Serve a public/ directory alongside the Worker',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<AssetsPrimitiveConfig | null> {
+    const choices = await promptNewAssetsProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<AssetsPrimitiveConfig | null> {
+    const choices = await promptExistingAssetsProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const assetsConfig = config as AssetsPrimitiveConfig;
+
+    if (usesQueuesDashboard(assetsConfig) && !(await QueuesPrimitive.patchConfig!(configPath, getQueuesConfig(assetsConfig)))) {
+      return false;
+    }
+
+    // The dashboard's API routes (/events, /stream, POST /) are never asset paths,
+    // so assets go first and misses reach the Worker
+    return await patchWranglerConfigForAssets(configPath, {
+      directory: assetsConfig.directory,
+      bindingName: assetsConfig.bindingName,
+      notFoundHandling: usesQueuesDashboard(assetsConfig) ? 'none' : assetsConfig.notFoundHandling!,
+      runWorkerFirst: usesQueuesDashboard(assetsConfig) ? false : assetsConfig.runWorkerFirst!,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const assetsConfig = config as AssetsPrimitiveConfig;
+    const templateOptions = { bindingName: assetsConfig.bindingName };
+    const assetsDir = path.join(projectDir, assetsConfig.directory);
+    const indexPath = path.join(assetsDir, 'index.html');
+
+    // Existing project: add a starter index.html and fall through to assets from fetch
+    if (assetsConfig.entryFilePath) {
+      await fs.ensureDir(assetsDir);
+      if (await fs.pathExists(indexPath)) {
+        logger.warn(`${assetsConfig.directory}/index.html already exists, skipping`);
+      } else {
+        await fs.writeFile(indexPath, generateAssetsIndexHTML(), 'utf-8');
+        logger.success(`Created ${assetsConfig.directory}/index.html`);
+      }
+
+      await patchEnvBindings(assetsConfig.entryFilePath, [
+        { name: assetsConfig.bindingName, type: 'Fetcher' },
+      ]);
+      await patchFetchFallthrough(assetsConfig.entryFilePath, {
+        bindingName: assetsConfig.bindingName,
+      });
+      return;
+    }
+
+    // Queues dashboard: QueuesPrimitive writes index.ts and the dashboard as index.html
+    if (usesQueuesDashboard(assetsConfig)) {
+      await QueuesPrimitive.generateFiles(projectDir, getQueuesConfig(assetsConfig));
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src and assets directories exist
+    await fs.ensureDir(srcDir);
+    await fs.ensureDir(assetsDir);
+
+    // Generate index.ts and index.html
+    await fs.writeFile(path.join(srcDir, 'index.ts'), generateAssetsWorkerCode(templateOptions), 'utf-8');
+    await fs.writeFile(indexPath, generateAssetsIndexHTML(), 'utf-8');
+
+    logger.success(`Created static assets demo files (index.ts, ${assetsConfig.directory}/index.html)`);
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const assetsConfig = config as AssetsPrimitiveConfig;
+
+    // Assets are uploaded by wrangler deploy; only the dashboard queue needs to exist first
+    if (usesQueuesDashboard(assetsConfig)) {
+      await QueuesPrimitive.preDeploySteps!(projectDir, getQueuesConfig(assetsConfig));
+    }
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const assetsConfig = config as AssetsPrimitiveConfig;
+    const nextSteps = usesQueuesDashboard(assetsConfig)
+      ? [
+          `Open http://localhost:8787 - the dashboard is now ${assetsConfig.directory}/index.html`,
+          'Click "Enqueue Message" to send messages to the queue',
+        ]
+      : [
+          'Open http://localhost:8787 to see index.html',
+          `Add files to ${assetsConfig.directory}/ - they're served as-is, no rebuild of the Worker needed`,
+        ];
+
+    return {
+      successMessage: '🎉 Your Worker is serving static assets!',
+      nextSteps,
+      setupCommands: usesQueuesDashboard(assetsConfig)
+        ? [`npx wrangler queues create ${assetsConfig.queueName}`]
+        : undefined,
+    };
+  },
+};
@@ -0,0 +1,153 @@
+import prompts from 'prompts';
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export type NotFoundHandling = 'single-page-application' | '404-page' | 'none';
+
+// false: assets first, true: Worker first, string[]: Worker first for matching paths
+export type RunWorkerFirst = boolean | string[];
+
+export interface NewAssetsProjectChoices {
+  projectName: string;
+  directory: string;
+  bindingName: string;
+  serveQueueDashboard: boolean;
+  queueName?: string;
+  queueBindingName?: string;
+  notFoundHandling?: NotFoundHandling;
+  runWorkerFirst?: RunWorkerFirst;
+}
+
+export interface ExistingAssetsProjectChoices {
+  directory: string;
+  bindingName: string;
+  notFoundHandling: NotFoundHandling;
+  runWorkerFirst: RunWorkerFirst;
+}
+
+const NOT_FOUND_CHOICES = [
+  { title: 'Single-page app', description: 'Serve index.html for unknown paths', value: 'single-page-application' },
+  { title: '404 page', description: 'Serve the nearest 404.html', value: '404-page' },
+  { title: 'None', description: 'Pass unknown paths to the Worker', value: 'none' },
+];
+
+const RUN_WORKER_FIRST_CHOICES = [
+  { title: 'Only for /api/*', description: 'Assets first for everything else', value: ['/api/*'] },
+  { title: 'Never', description: 'Assets first; the Worker only sees misses', value: false },
+  { title: 'Always', description: 'The Worker sees every request and falls through to assets', value: true },
+];
+
+export async function promptNewAssetsProject(): Promise<NewAssetsProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with static assets!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-assets-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-assets-worker)',
+    },
+    {
+      type: 'text',
+      name: 'directory',
+      message: 'Assets directory?',
+      initial: 'public',
+      validate: (value: string) =>
+        /^[A-Za-z0-9_-][A-Za-z0-9_./-]*$/.test(value) || 'Must be a relative path (e.g., public)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'ASSETS',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., ASSETS)',
+    },
+    {
+      type: 'confirm',
+      name: 'serveQueueDashboard',
+      message: 'Serve the Queues dashboard as a static asset (includes Queues)?',
+      initial: false,
+    },
+    {
+      type: (prev: boolean) => (prev ? 'text' : null),
+      name: 'queueName',
+      message: 'Queue name?',
+      initial: 'demo-queue',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-queue)',
+    },
+    {
+      type: (prev: string) => (prev ? 'text' : null),
+      name: 'queueBindingName',
+      message: 'Queue binding name?',
+      initial: 'DEMO_QUEUE',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., DEMO_QUEUE)',
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.serveQueueDashboard ? null : 'select'),
+      name: 'notFoundHandling',
+      message: 'When no asset matches?',
+      choices: NOT_FOUND_CHOICES,
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.serveQueueDashboard ? null : 'select'),
+      name: 'runWorkerFirst',
+      message: 'Run the Worker before serving assets?',
+      choices: RUN_WORKER_FIRST_CHOICES,
+    },
+  ]);
+
+  if (!response.projectName || response.serveQueueDashboard === undefined) {
+    return null;
+  }
+
+  if (!response.serveQueueDashboard && response.runWorkerFirst === undefined) {
+    return null;
+  }
+
+  return response as NewAssetsProjectChoices;
+}
+
+export async function promptExistingAssetsProject(): Promise<ExistingAssetsProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'directory',
+      message: 'Assets directory?',
+      initial: 'public',
+      validate: (value: string) =>
+        /^[A-Za-z0-9_-][A-Za-z0-9_./-]*$/.test(value) || 'Must be a relative path (e.g., public)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'ASSETS',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., ASSETS)',
+    },
+    {
+      type: 'select',
+      name: 'notFoundHandling',
+      message: 'When no asset matches?',
+      choices: NOT_FOUND_CHOICES,
+    },
+    {
+      type: 'select',
+      name: 'runWorkerFirst',
+      message: 'Run the Worker before serving assets?',
+      choices: RUN_WORKER_FIRST_CHOICES,
+    },
+  ]);
+
+  if (!response.bindingName || response.runWorkerFirst === undefined) {
+    return null;
+  }
+
+  return response as ExistingAssetsProjectChoices;
+}
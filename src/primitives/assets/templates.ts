@@ -0,0 +1,74 @@
+// Static assets template interfaces and generators
+
+export interface AssetsTemplateOptions {
+  bindingName: string;
+}
+
+export function generateAssetsWorkerCode(options: AssetsTemplateOptions): string {
+  const { bindingName } = options;
+
+  return `// Cloudflare Workers Static Assets demo
+// Files in the assets directory are served directly; the Worker handles /api/*
+// and falls through to ${bindingName} for everything else.
+
+interface Env {
+  ${bindingName}: Fetcher;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    // GET /api/hello - Dynamic route, called from index.html
+    if (url.pathname === "/api/hello") {
+      return new Response(
+        JSON.stringify({ message: "Hello from the Worker", servedAt: new Date().toISOString() }),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Anything the routes above didn't handle is served by ${bindingName}
+    return env.${bindingName}.fetch(request);
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateAssetsIndexHTML(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Static Assets Demo</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      max-width: 640px;
+      margin: 4rem auto;
+      padding: 0 1rem;
+      color: #1a1a1a;
+    }
+    code { background: #f4f4f4; padding: 0.1rem 0.3rem; border-radius: 4px; }
+    pre { background: #f4f4f4; padding: 1rem; border-radius: 8px; }
+  </style>
+</head>
+<body>
+  <h1>Static Assets Demo</h1>
+  <p>This page is a static file. The response below comes from the Worker at <code>/api/hello</code>.</p>
+  <pre id="result">Loading...</pre>
+
+  <script>
+    fetch('/api/hello')
+      .then((response) => response.json())
+      .then((data) => {
+        document.getElementById('result').textContent = JSON.stringify(data, null, 2);
+      })
+      .catch((error) => {
+        document.getElementById('result').textContent = 'Request failed: ' + error.message;
+      });
+  </script>
+</body>
+</html>
+`;
+}
@@ -5,6 +5,7 @@
 
 export interface PrimitiveConfig {
   projectName?: string;
+  entryFilePath?: string; // Set when adding to an existing project with a detected entry file
   [key: string]: any; // Primitive-specific config
 }
 
@@ -31,6 +32,10 @@ export interface Primitive {
   // Pre-deployment steps (optional) - e.g., create queue, create namespace
   preDeploySteps?(projectDir: string, config: PrimitiveConfig): Promise<void>;
 
+  // Secrets (optional) - values read from env that must not live in wrangler config.
+  // The flows write them to .dev.vars and type them on Env; preDeploySteps pushes them.
+  getSecrets?(config: PrimitiveConfig): SecretDefinition[];
+
   // Post-deployment info (optional) - what to show after deployment
   getDeploymentInfo?(config: PrimitiveConfig): DeploymentInfo;
 
@@ -38,7 +43,14 @@ export interface Primitive {
   dependencies?: string[];
 }
 
+export interface SecretDefinition {
+  name: string; // Env property, e.g. 'API_KEY'
+  description?: string; // Written as a comment in .dev.vars
+  value?: string; // Kept in memory only - written to .dev.vars and passed to wrangler secret put
+}
+
 export interface DeploymentInfo {
   successMessage?: string;
   nextSteps?: string[];
+  setupCommands?: string[]; // Commands to run before deploying if pre-deploy steps were skipped
 }
@@ -0,0 +1,109 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface CronConfig {
+  crons: string[];
+}
+
+export async function patchWranglerConfigForCron(
+  configPath: string,
+  config: CronConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForCron(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForCron(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForCron(
+  configPath: string,
+  content: string,
+  config: CronConfig
+): Promise<boolean> {
+  try {
+    const cronsPattern = /(\[triggers\][^[]*?crons\s*=\s*\[)([^\]]*)(\])/;
+    const triggersHeaderPattern = /^\[triggers\][ \t]*(#.*)?$/m;
+    const match = content.match(cronsPattern);
+
+    let updatedContent: string;
+
+    if (match) {
+      // Merge into the existing [triggers] crons array
+      const existing = [...match[2].matchAll(/"([^"]+)"/g)].map((m) => m[1]);
+      const crons = [...existing, ...config.crons.filter((c) => !existing.includes(c))];
+
+      if (crons.length === existing.length) {
+        logger.warn('Cron triggers already exist in config');
+        return true;
+      }
+
+      updatedContent = content.replace(
+        cronsPattern,
+        `$1${crons.map((c) => `"${c}"`).join(', ')}$3`
+      );
+    } else if (triggersHeaderPattern.test(content)) {
+      // A [triggers] table without crons: add them under it, TOML allows the table only once
+      updatedContent = content.replace(
+        triggersHeaderPattern,
+        `$&\ncrons = [${config.crons.map((c) => `"${c}"`).join(', ')}]`
+      );
+    } else {
+      updatedContent = content + `
+# Cron Triggers (UTC)
+[triggers]
+crons = [${config.crons.map((c) => `"${c}"`).join(', ')}]
+`;
+    }
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with cron triggers');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForCron(
+  configPath: string,
+  content: string,
+  config: CronConfig
+): Promise<boolean> {
+  try {
+    const parsedConfig = jsonc.parse(content);
+
+    const existing: string[] = parsedConfig.triggers?.crons || [];
+    const crons = [...existing, ...config.crons.filter((c) => !existing.includes(c))];
+
+    if (crons.length === existing.length) {
+      logger.warn('Cron triggers already exist in config');
+      return true;
+    }
+
+    const edits = jsonc.modify(content, ['triggers', 'crons'], crons, {});
+
+    await fs.writeFile(configPath, jsonc.applyEdits(content, edits), 'utf-8');
+    logger.success('Updated wrangler config with cron triggers');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,90 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { promptNewCronProject, promptExistingCronProject } from './prompts.js';
+import { patchWranglerConfigForCron } from './config.js';
+import { generateCronWorkerCode, generateScheduledHandlerCode } from './templates.js';
+import { patchHandlerMethod } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface CronPrimitiveConfig extends PrimitiveConfig {
+  crons: string[];
+}
+
+export const CronPrimitive: Primitive = {
+  id: 'cron',
+  name: 'Cron Triggers',
+  description: 'Scheduled handler with validated cron expressions',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<CronPrimitiveConfig | null> {
+    const choices = await promptNewCronProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<CronPrimitiveConfig | null> {
+    const choices = await promptExistingCronProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const cronConfig = config as CronPrimitiveConfig;
+    return await patchWranglerConfigForCron(configPath, {
+      crons: cronConfig.crons,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const cronConfig = config as CronPrimitiveConfig;
+    const templateOptions = { crons: cronConfig.crons };
+
+    // Existing project: add scheduled.ts next to the entry file and a scheduled handler
+    if (cronConfig.entryFilePath) {
+      const scheduledPath = path.join(path.dirname(cronConfig.entryFilePath), 'scheduled.ts');
+      if (await fs.pathExists(scheduledPath)) {
+        logger.warn('scheduled.ts already exists, skipping');
+      } else {
+        await fs.writeFile(scheduledPath, generateScheduledHandlerCode(templateOptions), 'utf-8');
+        logger.success('Created scheduled.ts');
+      }
+
+      await patchHandlerMethod(cronConfig.entryFilePath, {
+        name: 'scheduled',
+        parameters: [
+          { name: 'controller', type: 'ScheduledController' },
+          { name: 'env', type: 'Env' },
+          { name: 'ctx', type: 'ExecutionContext' },
+        ],
+        returnType: 'Promise<void>',
+        statements: 'ctx.waitUntil(handleScheduled(controller, env, ctx));',
+        namedImports: ['handleScheduled'],
+        importPath: './scheduled',
+      });
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate index.ts and scheduled.ts
+    await fs.writeFile(path.join(srcDir, 'index.ts'), generateCronWorkerCode(templateOptions), 'utf-8');
+    await fs.writeFile(path.join(srcDir, 'scheduled.ts'), generateScheduledHandlerCode(templateOptions), 'utf-8');
+
+    logger.success('Created cron demo files (index.ts, scheduled.ts)');
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const cronConfig = config as CronPrimitiveConfig;
+    return {
+      successMessage: '🎉 Your scheduled worker is live!',
+      nextSteps: [
+        'Start the dev server with scheduled testing: npx wrangler dev --test-scheduled',
+        `Trigger a run: curl "http://localhost:8787/__scheduled?cron=${encodeURIComponent(cronConfig.crons[0])}"`,
+      ],
+    };
+  },
+};
@@ -0,0 +1,115 @@
+import kleur from 'kleur';
+import { coloredPrompts } from '../../lib/helpers.js';
+import { describeCron, getNextRuns, parseCron, validateCron } from './schedule.js';
+
+export interface NewCronProjectChoices {
+  projectName: string;
+  crons: string[];
+}
+
+export interface ExistingCronProjectChoices {
+  crons: string[];
+}
+
+export async function promptNewCronProject(): Promise<NewCronProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with Cron Triggers!\n');
+
+  const response = await coloredPrompts({
+    type: 'text',
+    name: 'projectName',
+    message: 'Project name?',
+    initial: 'my-cron-worker',
+    validate: (value: string) =>
+      /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-cron-worker)',
+  });
+
+  if (!response.projectName) {
+    return null;
+  }
+
+  const crons = await promptCronSchedules();
+  if (!crons) {
+    return null;
+  }
+
+  return { projectName: response.projectName, crons };
+}
+
+export async function promptExistingCronProject(): Promise<ExistingCronProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const crons = await promptCronSchedules();
+  if (!crons) {
+    return null;
+  }
+
+  return { crons };
+}
+
+/**
+ * Ask for one or more cron expressions, previewing each before it's accepted
+ */
+async function promptCronSchedules(): Promise<string[] | null> {
+  const crons: string[] = [];
+
+  while (true) {
+    const { expression } = await coloredPrompts({
+      type: 'text',
+      name: 'expression',
+      message: 'Cron schedule? (UTC, weekdays 1-7 = SUN-SAT)',
+      initial: crons.length === 0 ? '*/5 * * * *' : '0 0 * * *',
+      validate: (value: string) => validateCron(value),
+    });
+
+    if (!expression) {
+      return null;
+    }
+
+    const normalized = parseCron(expression).expression;
+    printCronPreview(normalized);
+
+    const { confirmed, addAnother } = await coloredPrompts([
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: 'Use this schedule?',
+        initial: true,
+      },
+      {
+        type: (prev: boolean) => (prev ? 'confirm' : null),
+        name: 'addAnother',
+        message: 'Add another schedule?',
+        initial: false,
+      },
+    ]);
+
+    if (confirmed === undefined) {
+      return null;
+    }
+
+    if (confirmed && !crons.includes(normalized)) {
+      crons.push(normalized);
+    }
+
+    if (confirmed && !addAnother) {
+      return crons;
+    }
+  }
+}
+
+function printCronPreview(expression: string): void {
+  const runs = getNextRuns(parseCron(expression), 5);
+
+  console.log(`\n  ${kleur.bold(describeCron(expression))}`);
+
+  if (runs.length === 0) {
+    console.log(kleur.yellow('  This schedule never fires'));
+  } else {
+    console.log(kleur.dim('  Next runs:'));
+    runs.forEach((run) => {
+      console.log(kleur.dim(`    ${run.toUTCString().replace(':00 GMT', ' UTC')}`));
+    });
+  }
+
+  console.log('');
+}
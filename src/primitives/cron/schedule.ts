@@ -0,0 +1,369 @@
+// Cron expression parsing, description and next-run preview.
+// Follows Cloudflare's Cron Trigger syntax: five fields, evaluated in UTC,
+// with weekdays numbered 1-7 starting on Sunday (so "6L" is the last Friday).
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS = ['', 'first', 'second', 'third', 'fourth', 'fifth'];
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  lastDayOfMonth: boolean; // L
+  lastWeekdayOfMonth: boolean; // LW
+  nearestWeekdays: number[]; // 15W
+  lastDaysOfWeek: number[]; // 6L - last Friday
+  nthDaysOfWeek: Array<{ day: number; nth: number }>; // 2#1 - first Monday
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 };
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: 'day of month', min: 1, max: 31 };
+const MONTH: FieldSpec = { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 };
+const DAY_OF_WEEK: FieldSpec = { name: 'day of week', min: 1, max: 7, names: DAY_NAMES, nameOffset: 1 };
+
+/**
+ * Parse a cron expression, throwing an Error with a readable message if it's invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+
+  const schedule: CronSchedule = {
+    expression: fields.join(' '),
+    minutes: parseField(minuteField, MINUTE),
+    hours: parseField(hourField, HOUR),
+    daysOfMonth: new Set(),
+    months: parseField(monthField, MONTH),
+    daysOfWeek: new Set(),
+    lastDayOfMonth: false,
+    lastWeekdayOfMonth: false,
+    nearestWeekdays: [],
+    lastDaysOfWeek: [],
+    nthDaysOfWeek: [],
+    restrictsDayOfMonth: domField !== '*' && domField !== '?',
+    restrictsDayOfWeek: dowField !== '*' && dowField !== '?',
+  };
+
+  // Day of month: numbers plus L, LW and nW
+  for (const part of domField.split(',')) {
+    const upper = part.toUpperCase();
+    if (upper === 'L') {
+      schedule.lastDayOfMonth = true;
+    } else if (upper === 'LW') {
+      schedule.lastWeekdayOfMonth = true;
+    } else if (/^\d+W$/.test(upper)) {
+      schedule.nearestWeekdays.push(parseValue(upper.slice(0, -1), DAY_OF_MONTH));
+    } else {
+      parseField(part, DAY_OF_MONTH).forEach((d) => schedule.daysOfMonth.add(d));
+    }
+  }
+
+  // Day of week: 1-7 (Sunday = 1) plus nL and n#k, stored as 0-6
+  for (const part of dowField.split(',')) {
+    const upper = part.toUpperCase();
+    if (/^\w+L$/.test(upper) && upper !== 'L') {
+      schedule.lastDaysOfWeek.push(parseValue(upper.slice(0, -1), DAY_OF_WEEK) - 1);
+    } else if (upper.includes('#')) {
+      const [day, nth] = upper.split('#');
+      const nthValue = Number(nth);
+      if (!Number.isInteger(nthValue) || nthValue < 1 || nthValue > 5) {
+        throw new Error(`Invalid day of week "${part}": # must be followed by 1-5`);
+      }
+      schedule.nthDaysOfWeek.push({ day: parseValue(day, DAY_OF_WEEK) - 1, nth: nthValue });
+    } else {
+      parseField(part, DAY_OF_WEEK).forEach((d) => schedule.daysOfWeek.add(d - 1));
+    }
+  }
+
+  return schedule;
+}
+
+export function validateCron(expression: string): true | string {
+  try {
+    parseCron(expression);
+    return true;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    if (part === '') {
+      throw new Error(`Invalid ${spec.name} "${field}"`);
+    }
+
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${spec.name} "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*' || range === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid range in ${spec.name} "${part}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.nameOffset ?? 0) : Number(text);
+
+  if (text === '' || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} "${text}" (expected ${spec.min}-${spec.max})`);
+  }
+
+  return value;
+}
+
+/**
+ * Compute the next `count` fire times after `from`, in UTC
+ */
+export function getNextRuns(schedule: CronSchedule, count = 5, from: Date = new Date()): Date[] {
+  const runs: Date[] = [];
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+  const hours = [...schedule.hours].sort((a, b) => a - b);
+
+  const day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+
+  // Walk day by day; give up after ~5 years (e.g. "0 0 30 2 *" never fires)
+  for (let i = 0; i < 366 * 5 && runs.length < count; i++) {
+    if (matchesDay(schedule, day)) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const run = new Date(day.getTime());
+          run.setUTCHours(hour, minute, 0, 0);
+          if (run > from && runs.length < count) {
+            runs.push(run);
+          }
+        }
+      }
+    }
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  return runs;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const domMatch = matchesDayOfMonth(schedule, date);
+  const dowMatch = matchesDayOfWeek(schedule, date);
+
+  // Like standard cron: when both day fields are restricted, either may match
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return domMatch || dowMatch;
+  }
+  if (schedule.restrictsDayOfMonth) {
+    return domMatch;
+  }
+  if (schedule.restrictsDayOfWeek) {
+    return dowMatch;
+  }
+  return true;
+}
+
+function matchesDayOfMonth(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = date.getUTCDate();
+  const lastDay = daysInMonth(date);
+
+  if (schedule.daysOfMonth.has(dayOfMonth)) return true;
+  if (schedule.lastDayOfMonth && dayOfMonth === lastDay) return true;
+  if (schedule.lastWeekdayOfMonth && dayOfMonth === nearestWeekday(date, lastDay)) return true;
+
+  return schedule.nearestWeekdays.some(
+    (target) => target <= lastDay && dayOfMonth === nearestWeekday(date, target)
+  );
+}
+
+function matchesDayOfWeek(schedule: CronSchedule, date: Date): boolean {
+  const dayOfWeek = date.getUTCDay();
+  const dayOfMonth = date.getUTCDate();
+
+  if (schedule.daysOfWeek.has(dayOfWeek)) return true;
+  if (schedule.lastDaysOfWeek.includes(dayOfWeek) && dayOfMonth + 7 > daysInMonth(date)) return true;
+
+  return schedule.nthDaysOfWeek.some(
+    ({ day, nth }) => day === dayOfWeek && Math.ceil(dayOfMonth / 7) === nth
+  );
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+// Weekday nearest to `target` within the same month (the "W" modifier)
+function nearestWeekday(date: Date, target: number): number {
+  const candidate = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), target));
+  const weekday = candidate.getUTCDay();
+
+  if (weekday === 6) {
+    return target === 1 ? 3 : target - 1;
+  }
+  if (weekday === 0) {
+    return target === daysInMonth(date) ? target - 2 : target + 1;
+  }
+  return target;
+}
+
+/**
+ * Describe a cron expression in plain English, e.g. "At 17:00 UTC, on Sunday"
+ */
+export function describeCron(expression: string): string {
+  const [minuteField, hourField, domField, monthField, dowField] = expression.trim().split(/\s+/);
+  const parts: string[] = [describeTime(minuteField, hourField)];
+
+  if (domField !== '*' && domField !== '?') {
+    parts.push(describeDayOfMonth(domField));
+  }
+
+  if (dowField !== '*' && dowField !== '?') {
+    parts.push(describeDayOfWeek(dowField));
+  }
+
+  if (monthField !== '*') {
+    parts.push(`in ${describeList(monthField, 'months', (value) => value, monthLabel)}`);
+  }
+
+  return parts.join(', ');
+}
+
+function describeTime(minuteField: string, hourField: string): string {
+  const isNumber = (field: string) => /^\d+$/.test(field);
+  const pad = (value: string | number) => String(value).padStart(2, '0');
+
+  if (isNumber(minuteField) && /^\d+(,\d+)*$/.test(hourField)) {
+    const times = hourField.split(',').map((hour) => `${pad(hour)}:${pad(minuteField)}`);
+    return `At ${times.join(' and ')} UTC`;
+  }
+
+  let minutes: string;
+  if (minuteField === '*') {
+    minutes = 'Every minute';
+  } else if (/^\*\/\d+$/.test(minuteField)) {
+    minutes = `Every ${minuteField.slice(2)} minutes`;
+  } else if (isNumber(minuteField)) {
+    minutes = `At minute ${minuteField}`;
+  } else {
+    minutes = `At minutes ${minuteField}`;
+  }
+
+  if (hourField === '*') {
+    return isNumber(minuteField) ? `${minutes} past every hour` : minutes;
+  }
+  if (/^\*\/\d+$/.test(hourField)) {
+    return `${minutes}, every ${hourField.slice(2)} hours`;
+  }
+  if (/^\d+-\d+$/.test(hourField)) {
+    const [from, to] = hourField.split('-');
+    return `${minutes}, between ${pad(from)}:00 and ${pad(to)}:59 UTC`;
+  }
+  return `${minutes}, during hour ${hourField} UTC`;
+}
+
+function describeDayOfMonth(field: string): string {
+  return describeList(field, 'days', (value) => {
+    const upper = value.toUpperCase();
+    if (upper === 'L') return 'on the last day of the month';
+    if (upper === 'LW') return 'on the last weekday of the month';
+    if (/^\d+W$/.test(upper)) return `on the weekday nearest day ${upper.slice(0, -1)} of the month`;
+    return `on day ${value} of the month`;
+  });
+}
+
+function describeDayOfWeek(field: string): string {
+  return describeList(field, 'days', (value) => {
+    const upper = value.toUpperCase();
+    if (/^\w+L$/.test(upper)) return `on the last ${dayLabel(upper.slice(0, -1))} of the month`;
+    if (upper.includes('#')) {
+      const [day, nth] = upper.split('#');
+      return `on the ${ORDINALS[Number(nth)]} ${dayLabel(day)} of the month`;
+    }
+    return `on ${value}`;
+  }, dayLabel);
+}
+
+// Describe a comma-separated list, expanding ranges and steps through `label`
+function describeList(
+  field: string,
+  unit: string,
+  describe: (value: string) => string,
+  label: (value: string) => string = (value) => value
+): string {
+  return field
+    .split(',')
+    .map((part) => {
+      if (part.includes('/')) {
+        const [range, step] = part.split('/');
+        return `every ${step} ${unit}${range === '*' ? '' : ` from ${label(range)}`}`;
+      }
+      if (part.includes('-') && !part.includes('#')) {
+        const [from, to] = part.split('-');
+        return describe(`${label(from)} through ${label(to)}`);
+      }
+      return describe(/^\w+$/.test(part) ? label(part) : part);
+    })
+    .join(' and ');
+}
+
+function dayLabel(value: string): string {
+  const nameIndex = DAY_NAMES.indexOf(value.toUpperCase());
+  const index = nameIndex >= 0 ? nameIndex : Number(value) - 1;
+  return DAY_LABELS[index] ?? value;
+}
+
+function monthLabel(value: string): string {
+  if (value.includes('-')) {
+    const [from, to] = value.split('-');
+    return `${monthLabel(from)} through ${monthLabel(to)}`;
+  }
+  const nameIndex = MONTH_NAMES.indexOf(value.toUpperCase());
+  const index = nameIndex >= 0 ? nameIndex : Number(value) - 1;
+  const name = MONTH_NAMES[index];
+  return name ? name.charAt(0) + name.slice(1).toLowerCase() : value;
+}
@@ -0,0 +1,64 @@
+// Cron template interfaces and generators
+
+import { describeCron } from './schedule.js';
+
+export interface CronTemplateOptions {
+  crons: string[];
+}
+
+export function generateCronWorkerCode(options: CronTemplateOptions): string {
+  return `// Cloudflare Cron Triggers demo
+// The scheduled jobs live in scheduled.ts; schedules are set in wrangler triggers.crons
+
+import { handleScheduled } from "./scheduled";
+
+interface Env {}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    return new Response("Cron Triggers Demo\\n\\nRun \\"npx wrangler dev --test-scheduled\\" and GET /__scheduled to trigger a run", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+
+  // Runs on every cron trigger; controller.cron says which schedule fired
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(handleScheduled(controller, env, ctx));
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateScheduledHandlerCode(options: CronTemplateOptions): string {
+  const schedules = options.crons
+    .map((cron) => `//   "${cron}"  ${describeCron(cron)}`)
+    .join('\n');
+
+  const cases = options.crons
+    .map((cron) => `    case "${cron}":
+      // ${describeCron(cron)}
+      console.log(\`[cron] "\${controller.cron}" fired at \${new Date(controller.scheduledTime).toISOString()}\`);
+      break;`)
+    .join('\n\n');
+
+  return `// Scheduled jobs, dispatched by cron expression
+// Schedules (UTC):
+${schedules}
+//
+// Test locally: npx wrangler dev --test-scheduled
+//   curl "http://localhost:8787/__scheduled?cron=${encodeURIComponent(options.crons[0])}"
+
+export async function handleScheduled(
+  controller: ScheduledController,
+  env: unknown,
+  ctx: ExecutionContext
+): Promise<void> {
+  switch (controller.cron) {
+${cases}
+
+    default:
+      console.warn(\`[cron] No job for schedule "\${controller.cron}"\`);
+  }
+}
+`;
+}
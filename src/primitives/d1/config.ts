@@ -0,0 +1,163 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+// Written into the config until the real database is created.
+// `wrangler dev` accepts any ID for the local D1 database.
+export const D1_DATABASE_ID_PLACEHOLDER = '<database-id>';
+
+export interface D1Config {
+  databaseName: string;
+  bindingName: string;
+  databaseId?: string;
+  migrationsDir?: string;
+}
+
+export async function patchWranglerConfigForD1(
+  configPath: string,
+  config: D1Config
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForD1(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForD1(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForD1(
+  configPath: string,
+  content: string,
+  config: D1Config
+): Promise<boolean> {
+  try {
+    const {
+      databaseName,
+      bindingName,
+      databaseId = D1_DATABASE_ID_PLACEHOLDER,
+      migrationsDir = 'migrations'
+    } = config;
+
+    // Check if binding already exists
+    if (content.includes(`database_name = "${databaseName}"`)) {
+      logger.warn(`D1 database "${databaseName}" already exists in config`);
+      return true;
+    }
+
+    const d1Config = `
+# D1 Database
+[[d1_databases]]
+binding = "${bindingName}"
+database_name = "${databaseName}"
+database_id = "${databaseId}"
+migrations_dir = "${migrationsDir}"
+`;
+
+    await fs.writeFile(configPath, content + d1Config, 'utf-8');
+    logger.success('Updated wrangler.toml with D1 configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForD1(
+  configPath: string,
+  content: string,
+  config: D1Config
+): Promise<boolean> {
+  try {
+    const {
+      databaseName,
+      bindingName,
+      databaseId = D1_DATABASE_ID_PLACEHOLDER,
+      migrationsDir = 'migrations'
+    } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if database already exists
+    const databases = parsedConfig.d1_databases || [];
+    if (databases.some((db: any) => db.database_name === databaseName)) {
+      logger.warn(`D1 database "${databaseName}" already exists in config`);
+      return true;
+    }
+
+    const newDatabase = {
+      binding: bindingName,
+      database_name: databaseName,
+      database_id: databaseId,
+      migrations_dir: migrationsDir
+    };
+    const edits = jsonc.modify(content, ['d1_databases'], [...databases, newDatabase], {});
+
+    await fs.writeFile(configPath, jsonc.applyEdits(content, edits), 'utf-8');
+    logger.success('Updated wrangler config with D1 configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+export async function updateD1DatabaseId(
+  configPath: string,
+  databaseName: string,
+  databaseId: string
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      const databasePattern = new RegExp(
+        `(database_name\\s*=\\s*"${databaseName}"\\s*\\n\\s*database_id\\s*=\\s*")[^"]*(")`
+      );
+
+      if (!databasePattern.test(content)) {
+        logger.warn(`Could not find D1 database "${databaseName}" in wrangler.toml`);
+        return false;
+      }
+
+      const updatedContent = content.replace(databasePattern, `$1${databaseId}$2`);
+      await fs.writeFile(configPath, updatedContent, 'utf-8');
+      logger.success(`Updated wrangler.toml with D1 database ID for ${databaseName}`);
+      return true;
+    }
+
+    // Handle JSON/JSONC
+    const parsedConfig = jsonc.parse(content);
+    const databases: any[] = parsedConfig.d1_databases || [];
+    const index = databases.findIndex((db) => db.database_name === databaseName);
+
+    if (index === -1) {
+      logger.warn(`Could not find D1 database "${databaseName}" in wrangler config`);
+      return false;
+    }
+
+    const edits = jsonc.modify(content, ['d1_databases', index, 'database_id'], databaseId, {});
+    await fs.writeFile(configPath, jsonc.applyEdits(content, edits), 'utf-8');
+    logger.success(`Updated wrangler config with D1 database ID for ${databaseName}`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to update D1 database ID: ${error.message}`);
+    }
+    return false;
+  }
+}
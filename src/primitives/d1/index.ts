@@ -0,0 +1,159 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { execa } from 'execa';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { promptNewD1Project, promptExistingD1Project, promptD1MigrationTarget } from './prompts.js';
+import { patchWranglerConfigForD1, updateD1DatabaseId } from './config.js';
+import { generateD1WorkerCode, generateNotesRouteCode, generateD1Migration } from './templates.js';
+import { createD1Database } from '../../lib/wrangler.js';
+import { patchEnvBindings, patchFetchRoute } from '../../lib/ast-patcher.js';
+import { detectProjectContext } from '../../lib/detect.js';
+import { logger } from '../../lib/logger.js';
+
+export interface D1PrimitiveConfig extends PrimitiveConfig {
+  databaseName: string;
+  bindingName: string;
+  databaseId?: string;
+}
+
+export const D1Primitive: Primitive = {
+  id: 'd1',
+  name: 'D1',
+  description: 'D1 SQL database with migrations and a CRUD demo',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<D1PrimitiveConfig | null> {
+    const choices = await promptNewD1Project();
+    return choices;
+  },
+
+  async promptExisting(): Promise<D1PrimitiveConfig | null> {
+    const choices = await promptExistingD1Project();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const d1Config = config as D1PrimitiveConfig;
+    return await patchWranglerConfigForD1(configPath, {
+      databaseName: d1Config.databaseName,
+      bindingName: d1Config.bindingName,
+      databaseId: d1Config.databaseId,
+      migrationsDir: 'migrations',
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const d1Config = config as D1PrimitiveConfig;
+    const templateOptions = {
+      databaseName: d1Config.databaseName,
+      bindingName: d1Config.bindingName,
+    };
+
+    // Generate migrations/0001_init.sql
+    const migrationsDir = path.join(projectDir, 'migrations');
+    const migrationPath = path.join(migrationsDir, '0001_init.sql');
+    await fs.ensureDir(migrationsDir);
+    if (await fs.pathExists(migrationPath)) {
+      logger.warn('migrations/0001_init.sql already exists, skipping');
+    } else {
+      await fs.writeFile(migrationPath, generateD1Migration(), 'utf-8');
+    }
+
+    // Existing project: add notes.ts next to the entry file and route to it
+    if (d1Config.entryFilePath) {
+      const notesPath = path.join(path.dirname(d1Config.entryFilePath), 'notes.ts');
+      if (await fs.pathExists(notesPath)) {
+        logger.warn('notes.ts already exists, skipping');
+      } else {
+        await fs.writeFile(notesPath, generateNotesRouteCode(templateOptions), 'utf-8');
+        logger.success('Created notes.ts and migrations/0001_init.sql');
+      }
+
+      await patchEnvBindings(d1Config.entryFilePath, [
+        { name: d1Config.bindingName, type: 'D1Database' },
+      ]);
+      await patchFetchRoute(d1Config.entryFilePath, {
+        pathPrefix: '/notes',
+        handlerName: 'handleNotes',
+        importPath: './notes',
+      });
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate index.ts and notes.ts
+    await fs.writeFile(path.join(srcDir, 'index.ts'), generateD1WorkerCode(templateOptions), 'utf-8');
+    await fs.writeFile(path.join(srcDir, 'notes.ts'), generateNotesRouteCode(templateOptions), 'utf-8');
+
+    logger.success('Created D1 demo files (index.ts, notes.ts, migrations/0001_init.sql)');
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const d1Config = config as D1PrimitiveConfig;
+
+    if (!d1Config.databaseId) {
+      const databaseId = await createD1Database({
+        databaseName: d1Config.databaseName,
+        cwd: projectDir,
+      });
+
+      if (databaseId) {
+        d1Config.databaseId = databaseId;
+
+        // Write the real ID over the placeholder
+        const context = await detectProjectContext(projectDir);
+        if (context.wranglerConfigPath) {
+          await updateD1DatabaseId(context.wranglerConfigPath, d1Config.databaseName, databaseId);
+        }
+      } else {
+        // Database might already exist, which is okay
+        logger.warn('D1 database creation failed (it might already exist)');
+        logger.info(`Set database_id for ${d1Config.databaseName} in your wrangler config before deploying`);
+      }
+    }
+
+    const target = await promptD1MigrationTarget();
+    if (target === 'none') {
+      logger.info(`Apply migrations later: npx wrangler d1 migrations apply ${d1Config.databaseName} --remote`);
+      return;
+    }
+
+    const locations = target === 'local-remote' ? ['--local', '--remote'] : ['--local'];
+    for (const location of locations) {
+      logger.step(`Applying migrations (${location.slice(2)})...`);
+
+      try {
+        await execa('npx', ['wrangler', 'd1', 'migrations', 'apply', d1Config.databaseName, location], {
+          cwd: projectDir,
+          stdio: 'inherit',
+        });
+        logger.success(`Migrations applied (${location.slice(2)})`);
+      } catch (error) {
+        logger.warn(`Applying migrations failed (${location.slice(2)})`);
+        logger.info(`Retry with: npx wrangler d1 migrations apply ${d1Config.databaseName} ${location}`);
+      }
+    }
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const d1Config = config as D1PrimitiveConfig;
+    return {
+      successMessage: '🎉 Your D1 worker is live!',
+      nextSteps: [
+        `Apply the schema locally: npx wrangler d1 migrations apply ${d1Config.databaseName} --local`,
+        'Create a note: curl -X POST http://localhost:8787/notes -d \'{"title":"Hello D1"}\'',
+        'List notes: curl http://localhost:8787/notes',
+      ],
+      setupCommands: [
+        ...(d1Config.databaseId ? [] : [`npx wrangler d1 create ${d1Config.databaseName}`]),
+        `npx wrangler d1 migrations apply ${d1Config.databaseName} --remote`,
+      ],
+    };
+  },
+};
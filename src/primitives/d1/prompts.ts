@@ -0,0 +1,96 @@
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export interface NewD1ProjectChoices {
+  projectName: string;
+  databaseName: string;
+  bindingName: string;
+}
+
+export interface ExistingD1ProjectChoices {
+  databaseName: string;
+  bindingName: string;
+}
+
+export type D1MigrationTarget = 'none' | 'local' | 'local-remote';
+
+export async function promptNewD1Project(): Promise<NewD1ProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with D1!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-d1-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-d1-worker)',
+    },
+    {
+      type: 'text',
+      name: 'databaseName',
+      message: 'Database name?',
+      initial: 'demo-db',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-db)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'DB',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., DB)',
+    },
+  ]);
+
+  if (!response.projectName) {
+    return null;
+  }
+
+  return response as NewD1ProjectChoices;
+}
+
+export async function promptExistingD1Project(): Promise<ExistingD1ProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'databaseName',
+      message: 'Database name?',
+      initial: 'demo-db',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-db)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'DB',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., DB)',
+    },
+  ]);
+
+  if (!response.bindingName) {
+    return null;
+  }
+
+  return response as ExistingD1ProjectChoices;
+}
+
+export async function promptD1MigrationTarget(): Promise<D1MigrationTarget> {
+  const response = await coloredPrompts({
+    type: 'select',
+    name: 'target',
+    message: 'Apply migrations now?',
+    choices: [
+      { title: 'Local and remote', value: 'local-remote' },
+      { title: 'Local only (wrangler dev)', value: 'local' },
+      { title: 'Not now', value: 'none' },
+    ],
+    initial: 0,
+  });
+
+  return response.target ?? 'none';
+}
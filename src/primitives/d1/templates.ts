@@ -0,0 +1,142 @@
+// D1 template interfaces and generators
+
+export interface D1TemplateOptions {
+  databaseName: string;
+  bindingName: string;
+}
+
+export function generateD1WorkerCode(options: D1TemplateOptions): string {
+  return `// Cloudflare D1 - CRUD demo
+// The /notes routes live in notes.ts; the schema is in migrations/0001_init.sql
+
+import { handleNotes } from "./notes";
+
+interface Env {
+  ${options.bindingName}: D1Database;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith("/notes")) {
+      return handleNotes(request, env);
+    }
+
+    return new Response("D1 Demo\\n\\nTry GET /notes or POST /notes", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateNotesRouteCode(options: D1TemplateOptions): string {
+  return `// Typed CRUD routes for the notes table in D1 (${options.databaseName})
+// GET    /notes      → list notes
+// GET    /notes/:id  → read a note
+// POST   /notes      → create a note   { "title": string, "body"?: string }
+// PUT    /notes/:id  → update a note   { "title"?: string, "body"?: string }
+// DELETE /notes/:id  → delete a note
+
+export interface NotesEnv {
+  ${options.bindingName}: D1Database;
+}
+
+export interface Note {
+  id: number;
+  title: string;
+  body: string;
+  created_at: string;
+}
+
+interface NoteInput {
+  title?: string;
+  body?: string;
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export async function handleNotes(request: Request, env: NotesEnv): Promise<Response> {
+  const url = new URL(request.url);
+  const db = env.${options.bindingName};
+
+  // Match /notes and /notes/:id
+  const match = url.pathname.match(/^\\/notes(?:\\/(\\d+))?\\/?$/);
+  if (!match) {
+    return json({ error: "Not found" }, 404);
+  }
+  const id = match[1] ? Number(match[1]) : null;
+
+  // GET /notes - List notes
+  if (request.method === "GET" && id === null) {
+    const { results } = await db
+      .prepare("SELECT * FROM notes ORDER BY created_at DESC LIMIT 100")
+      .all<Note>();
+    return json(results);
+  }
+
+  // POST /notes - Create a note
+  if (request.method === "POST" && id === null) {
+    const input = await request.json<NoteInput>();
+    if (!input.title) {
+      return json({ error: "title is required" }, 400);
+    }
+
+    const note = await db
+      .prepare("INSERT INTO notes (title, body) VALUES (?, ?) RETURNING *")
+      .bind(input.title, input.body ?? "")
+      .first<Note>();
+    return json(note, 201);
+  }
+
+  if (id === null) {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  // GET /notes/:id - Read a note
+  if (request.method === "GET") {
+    const note = await db.prepare("SELECT * FROM notes WHERE id = ?").bind(id).first<Note>();
+    return note ? json(note) : json({ error: "Not found" }, 404);
+  }
+
+  // PUT /notes/:id - Update a note
+  if (request.method === "PUT") {
+    const input = await request.json<NoteInput>();
+    const note = await db
+      .prepare(
+        "UPDATE notes SET title = COALESCE(?, title), body = COALESCE(?, body) WHERE id = ? RETURNING *"
+      )
+      .bind(input.title ?? null, input.body ?? null, id)
+      .first<Note>();
+    return note ? json(note) : json({ error: "Not found" }, 404);
+  }
+
+  // DELETE /notes/:id - Delete a note
+  if (request.method === "DELETE") {
+    const { meta } = await db.prepare("DELETE FROM notes WHERE id = ?").bind(id).run();
+    return meta.changes > 0 ? json({ id, deleted: true }) : json({ error: "Not found" }, 404);
+  }
+
+  return json({ error: "Method not allowed" }, 405);
+}
+`;
+}
+
+export function generateD1Migration(): string {
+  return `-- Migration number: 0001
+-- Creates the notes table used by the /notes demo routes
+
+CREATE TABLE IF NOT EXISTS notes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL DEFAULT '',
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+`;
+}
@@ -0,0 +1,132 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+import { getNextMigrationTag, getTomlMigrationTags } from '../../lib/migrations.js';
+
+export interface DurableObjectConfig {
+  className: string;
+  bindingName: string;
+}
+
+export async function patchWranglerConfigForDurableObject(
+  configPath: string,
+  config: DurableObjectConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForDurableObject(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForDurableObject(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForDurableObject(
+  configPath: string,
+  content: string,
+  config: DurableObjectConfig
+): Promise<boolean> {
+  try {
+    const { className, bindingName } = config;
+
+    // Check if binding already exists
+    if (content.includes(`name = "${bindingName}"`)) {
+      logger.warn(`Durable Object binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    let updatedContent = content;
+
+    // 1. Add Durable Object binding
+    updatedContent += `
+# Durable Object
+[[durable_objects.bindings]]
+name = "${bindingName}"
+class_name = "${className}"
+`;
+
+    // 2. Add SQLite-backed class migration, tagged after the existing ones
+    const tag = getNextMigrationTag(getTomlMigrationTags(content));
+    updatedContent += `
+[[migrations]]
+tag = "${tag}"
+new_sqlite_classes = ["${className}"]
+`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success(`Updated wrangler.toml with Durable Object configuration (migration ${tag})`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForDurableObject(
+  configPath: string,
+  content: string,
+  config: DurableObjectConfig
+): Promise<boolean> {
+  try {
+    const { className, bindingName } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if binding already exists
+    const doBindings = parsedConfig.durable_objects?.bindings || [];
+    if (doBindings.some((b: any) => b.name === bindingName)) {
+      logger.warn(`Durable Object binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    let updatedContent = content;
+
+    // 1. Add Durable Object binding
+    const newBinding = {
+      name: bindingName,
+      class_name: className
+    };
+    let edits = jsonc.modify(
+      updatedContent,
+      ['durable_objects', 'bindings'],
+      [...doBindings, newBinding],
+      {}
+    );
+    updatedContent = jsonc.applyEdits(updatedContent, edits);
+
+    // 2. Add SQLite-backed class migration, tagged after the existing ones
+    const migrations = parsedConfig.migrations || [];
+    const tag = getNextMigrationTag(migrations.map((m: any) => m.tag));
+    const newMigration = {
+      tag,
+      new_sqlite_classes: [className]
+    };
+    edits = jsonc.modify(
+      updatedContent,
+      ['migrations'],
+      [...migrations, newMigration],
+      {}
+    );
+    updatedContent = jsonc.applyEdits(updatedContent, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success(`Updated wrangler config with Durable Object configuration (migration ${tag})`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,122 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import {
+  DurableObjectTemplate,
+  promptNewDurableObjectProject,
+  promptExistingDurableObjectProject,
+} from './prompts.js';
+import { patchWranglerConfigForDurableObject } from './config.js';
+import {
+  DURABLE_OBJECT_ROUTES,
+  generateDurableObjectWorkerCode,
+  generateDurableObjectCode,
+  getDurableObjectModuleName,
+  getDurableObjectHandlerName,
+} from './templates.js';
+import { patchEnvBindings, patchEntryExport, patchFetchRoute } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface DurableObjectsPrimitiveConfig extends PrimitiveConfig {
+  template: DurableObjectTemplate;
+  className: string;
+  bindingName: string;
+}
+
+export const DurableObjectsPrimitive: Primitive = {
+  id: 'durable-objects',
+  name: 'Durable Objects',
+  description: 'SQLite-backed Durable Object (counter or WebSocket chat room)',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<DurableObjectsPrimitiveConfig | null> {
+    const choices = await promptNewDurableObjectProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<DurableObjectsPrimitiveConfig | null> {
+    const choices = await promptExistingDurableObjectProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const doConfig = config as DurableObjectsPrimitiveConfig;
+    return await patchWranglerConfigForDurableObject(configPath, {
+      className: doConfig.className,
+      bindingName: doConfig.bindingName,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const doConfig = config as DurableObjectsPrimitiveConfig;
+    const templateOptions = {
+      template: doConfig.template,
+      className: doConfig.className,
+      bindingName: doConfig.bindingName,
+    };
+    const moduleName = getDurableObjectModuleName(doConfig.className);
+
+    // Existing project: add the class module next to the entry file, export and route to it
+    if (doConfig.entryFilePath) {
+      const classPath = path.join(path.dirname(doConfig.entryFilePath), `${moduleName}.ts`);
+      if (await fs.pathExists(classPath)) {
+        logger.warn(`${moduleName}.ts already exists, skipping`);
+      } else {
+        await fs.writeFile(classPath, generateDurableObjectCode(templateOptions), 'utf-8');
+        logger.success(`Created ${moduleName}.ts`);
+      }
+
+      await patchEnvBindings(doConfig.entryFilePath, [
+        {
+          name: doConfig.bindingName,
+          type: `DurableObjectNamespace<import("./${moduleName}").${doConfig.className}>`,
+        },
+      ]);
+      await patchEntryExport(doConfig.entryFilePath, [doConfig.className], `./${moduleName}`);
+      await patchFetchRoute(doConfig.entryFilePath, {
+        pathPrefix: DURABLE_OBJECT_ROUTES[doConfig.template],
+        handlerName: getDurableObjectHandlerName(doConfig.className),
+        importPath: `./${moduleName}`,
+      });
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate index.ts and the class module
+    await fs.writeFile(
+      path.join(srcDir, 'index.ts'),
+      generateDurableObjectWorkerCode(templateOptions),
+      'utf-8'
+    );
+    await fs.writeFile(
+      path.join(srcDir, `${moduleName}.ts`),
+      generateDurableObjectCode(templateOptions),
+      'utf-8'
+    );
+
+    logger.success(`Created Durable Object demo files (index.ts, ${moduleName}.ts)`);
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const doConfig = config as DurableObjectsPrimitiveConfig;
+    const route = DURABLE_OBJECT_ROUTES[doConfig.template];
+    return {
+      successMessage: `🎉 Your ${doConfig.className} Durable Object is live!`,
+      nextSteps: doConfig.template === 'chat-room'
+        ? [
+            `Connect: npx wscat -c "ws://localhost:8787${route}/lobby?name=alice"`,
+            'Open a second connection with another name and chat between them',
+          ]
+        : [
+            `Increment: curl -X POST http://localhost:8787${route}/demo`,
+            `Read: curl http://localhost:8787${route}/demo`,
+          ],
+    };
+  },
+};
@@ -0,0 +1,121 @@
+import prompts from 'prompts';
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export type DurableObjectTemplate = 'counter' | 'chat-room';
+
+export interface NewDurableObjectProjectChoices {
+  projectName: string;
+  template: DurableObjectTemplate;
+  className: string;
+  bindingName: string;
+}
+
+export interface ExistingDurableObjectProjectChoices {
+  template: DurableObjectTemplate;
+  className: string;
+  bindingName: string;
+}
+
+export async function promptNewDurableObjectProject(): Promise<NewDurableObjectProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with Durable Objects!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-do-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-do-worker)',
+    },
+    {
+      type: 'select',
+      name: 'template',
+      message: 'Which template?',
+      choices: [
+        {
+          title: 'Counter',
+          description: 'SQLite-backed counter called over RPC',
+          value: 'counter',
+        },
+        {
+          title: 'Chat room',
+          description: 'Hibernating WebSocket chat room with message history',
+          value: 'chat-room',
+        },
+      ],
+      initial: 0,
+    },
+    {
+      type: 'text',
+      name: 'className',
+      message: 'Class name?',
+      initial: (prev: DurableObjectTemplate) => (prev === 'chat-room' ? 'ChatRoom' : 'Counter'),
+      validate: (value: string) =>
+        /^[A-Z][A-Za-z0-9]*$/.test(value) || 'Must be PascalCase (e.g., Counter)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: (_prev: string, values: prompts.Answers<string>) =>
+        values.template === 'chat-room' ? 'CHAT_ROOM' : 'COUNTER',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., COUNTER)',
+    },
+  ]);
+
+  if (!response.projectName) {
+    return null;
+  }
+
+  return response as NewDurableObjectProjectChoices;
+}
+
+export async function promptExistingDurableObjectProject(): Promise<ExistingDurableObjectProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'select',
+      name: 'template',
+      message: 'Which template?',
+      choices: [
+        {
+          title: 'Counter',
+          description: 'SQLite-backed counter called over RPC',
+          value: 'counter',
+        },
+        {
+          title: 'Chat room',
+          description: 'Hibernating WebSocket chat room with message history',
+          value: 'chat-room',
+        },
+      ],
+      initial: 0,
+    },
+    {
+      type: 'text',
+      name: 'className',
+      message: 'Class name?',
+      initial: (prev: DurableObjectTemplate) => (prev === 'chat-room' ? 'ChatRoom' : 'Counter'),
+      validate: (value: string) =>
+        /^[A-Z][A-Za-z0-9]*$/.test(value) || 'Must be PascalCase (e.g., Counter)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: (_prev: string, values: prompts.Answers<string>) =>
+        values.template === 'chat-room' ? 'CHAT_ROOM' : 'COUNTER',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., COUNTER)',
+    },
+  ]);
+
+  if (!response.template) {
+    return null;
+  }
+
+  return response as ExistingDurableObjectProjectChoices;
+}
@@ -0,0 +1,251 @@
+// Durable Object template interfaces and generators
+
+import { DurableObjectTemplate } from './prompts.js';
+
+export interface DurableObjectTemplateOptions {
+  template: DurableObjectTemplate;
+  className: string;
+  bindingName: string;
+}
+
+// Route prefix each template's handler is mounted on
+export const DURABLE_OBJECT_ROUTES: Record<DurableObjectTemplate, string> = {
+  counter: '/counter',
+  'chat-room': '/chat',
+};
+
+// ChatRoom → chat-room
+export function getDurableObjectModuleName(className: string): string {
+  return className.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+export function getDurableObjectHandlerName(className: string): string {
+  return `handle${className}`;
+}
+
+export function generateDurableObjectWorkerCode(options: DurableObjectTemplateOptions): string {
+  const { className, bindingName, template } = options;
+  const moduleName = getDurableObjectModuleName(className);
+  const handlerName = getDurableObjectHandlerName(className);
+  const route = DURABLE_OBJECT_ROUTES[template];
+  const hint = template === 'chat-room'
+    ? `Connect a WebSocket to ${route}/lobby?name=you`
+    : `Try GET ${route}/demo or POST ${route}/demo`;
+
+  return `// Cloudflare Durable Objects - ${className} demo
+// The ${className} class and its ${route} routes live in ${moduleName}.ts
+
+import { ${className}, ${handlerName} } from "./${moduleName}";
+
+interface Env {
+  ${bindingName}: DurableObjectNamespace<${className}>;
+}
+
+// Durable Object classes must be exported from the entry module
+export { ${className} };
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith("${route}")) {
+      return ${handlerName}(request, env);
+    }
+
+    return new Response("Durable Objects Demo\\n\\n${hint}", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateDurableObjectCode(options: DurableObjectTemplateOptions): string {
+  return options.template === 'chat-room'
+    ? generateChatRoomCode(options)
+    : generateCounterCode(options);
+}
+
+function generateCounterCode(options: DurableObjectTemplateOptions): string {
+  const { className, bindingName } = options;
+  const handlerName = getDurableObjectHandlerName(className);
+
+  return `// ${className} - a SQLite-backed Durable Object, one instance per counter name
+// GET    /counter/:name  → current value
+// POST   /counter/:name  → increment (?by=N, default 1)
+// DELETE /counter/:name  → reset to 0
+
+import { DurableObject } from "cloudflare:workers";
+
+export interface ${className}Env {
+  ${bindingName}: DurableObjectNamespace<${className}>;
+}
+
+export class ${className} extends DurableObject<${className}Env> {
+  constructor(ctx: DurableObjectState, env: ${className}Env) {
+    super(ctx, env);
+
+    // SQLite storage is local to this object; schema setup is synchronous
+    ctx.storage.sql.exec(
+      "CREATE TABLE IF NOT EXISTS counter (id INTEGER PRIMARY KEY CHECK (id = 0), value INTEGER NOT NULL)"
+    );
+    ctx.storage.sql.exec("INSERT OR IGNORE INTO counter (id, value) VALUES (0, 0)");
+  }
+
+  // RPC methods - called directly on the stub from the Worker
+  async getValue(): Promise<number> {
+    return this.ctx.storage.sql
+      .exec<{ value: number }>("SELECT value FROM counter WHERE id = 0")
+      .one().value;
+  }
+
+  async increment(by = 1): Promise<number> {
+    return this.ctx.storage.sql
+      .exec<{ value: number }>("UPDATE counter SET value = value + ? WHERE id = 0 RETURNING value", by)
+      .one().value;
+  }
+
+  async reset(): Promise<number> {
+    this.ctx.storage.sql.exec("UPDATE counter SET value = 0 WHERE id = 0");
+    return 0;
+  }
+}
+
+export async function ${handlerName}(request: Request, env: ${className}Env): Promise<Response> {
+  const url = new URL(request.url);
+  const name = url.pathname.split("/")[2] || "default";
+
+  // Every name maps to its own ${className} instance
+  const stub = env.${bindingName}.get(env.${bindingName}.idFromName(name));
+
+  let value: number;
+  if (request.method === "GET") {
+    value = await stub.getValue();
+  } else if (request.method === "POST") {
+    value = await stub.increment(Number(url.searchParams.get("by") ?? 1));
+  } else if (request.method === "DELETE") {
+    value = await stub.reset();
+  } else {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  return new Response(JSON.stringify({ name, value }), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
+`;
+}
+
+function generateChatRoomCode(options: DurableObjectTemplateOptions): string {
+  const { className, bindingName } = options;
+  const handlerName = getDurableObjectHandlerName(className);
+
+  return `// ${className} - a hibernating WebSocket chat room, one instance per room name
+// GET /chat/:room?name=you  (with Upgrade: websocket)
+//
+// Sockets are accepted with ctx.acceptWebSocket(), so the object can be evicted
+// from memory between messages without dropping connections. Message history
+// is kept in the object's SQLite storage and replayed to new connections.
+
+import { DurableObject } from "cloudflare:workers";
+
+export interface ${className}Env {
+  ${bindingName}: DurableObjectNamespace<${className}>;
+}
+
+type ChatMessage = {
+  author: string;
+  text: string;
+  sent_at: number;
+};
+
+interface Attachment {
+  author: string;
+}
+
+const HISTORY_LIMIT = 50;
+
+export class ${className} extends DurableObject<${className}Env> {
+  constructor(ctx: DurableObjectState, env: ${className}Env) {
+    super(ctx, env);
+
+    ctx.storage.sql.exec(
+      "CREATE TABLE IF NOT EXISTS messages (id INTEGER PRIMARY KEY AUTOINCREMENT, author TEXT NOT NULL, text TEXT NOT NULL, sent_at INTEGER NOT NULL)"
+    );
+
+    // Answer keep-alive pings without waking the object
+    ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair("ping", "pong"));
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.headers.get("Upgrade") !== "websocket") {
+      return new Response("Expected a WebSocket upgrade", { status: 426 });
+    }
+
+    const author = new URL(request.url).searchParams.get("name") || "anonymous";
+    const { 0: client, 1: server } = new WebSocketPair();
+
+    // Hibernation API: the runtime owns the socket, not this instance
+    this.ctx.acceptWebSocket(server);
+    server.serializeAttachment({ author } satisfies Attachment);
+
+    // Replay recent history to the new connection
+    const history = this.ctx.storage.sql
+      .exec<ChatMessage>(
+        "SELECT author, text, sent_at FROM messages ORDER BY id DESC LIMIT ?",
+        HISTORY_LIMIT
+      )
+      .toArray()
+      .reverse();
+    server.send(JSON.stringify({ type: "history", messages: history }));
+
+    this.broadcast({ type: "joined", author });
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    const { author } = ws.deserializeAttachment() as Attachment;
+    const text = typeof message === "string" ? message : new TextDecoder().decode(message);
+
+    const chatMessage: ChatMessage = { author, text, sent_at: Date.now() };
+    this.ctx.storage.sql.exec(
+      "INSERT INTO messages (author, text, sent_at) VALUES (?, ?, ?)",
+      chatMessage.author,
+      chatMessage.text,
+      chatMessage.sent_at
+    );
+
+    this.broadcast({ type: "message", message: chatMessage });
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    const { author } = ws.deserializeAttachment() as Attachment;
+    // close() only accepts 1000 and 3000-4999; 1005 (no status) and 1006 (dropped) are reported, not sent
+    ws.close(code === 1000 || (code >= 3000 && code <= 4999) ? code : 1000, reason);
+    this.broadcast({ type: "left", author });
+  }
+
+  private broadcast(data: Record<string, unknown>): void {
+    const payload = JSON.stringify(data);
+
+    for (const ws of this.ctx.getWebSockets()) {
+      try {
+        ws.send(payload);
+      } catch (error) {
+        // Socket already closed, the runtime will drop it
+      }
+    }
+  }
+}
+
+export async function ${handlerName}(request: Request, env: ${className}Env): Promise<Response> {
+  const url = new URL(request.url);
+  const room = url.pathname.split("/")[2] || "lobby";
+
+  // Every room name maps to its own ${className} instance
+  const stub = env.${bindingName}.get(env.${bindingName}.idFromName(room));
+  return stub.fetch(request);
+}
+`;
+}
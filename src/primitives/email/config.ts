@@ -0,0 +1,97 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface SendEmailConfig {
+  bindingName: string;
+  destinationAddresses: string[];
+}
+
+export async function patchWranglerConfigForSendEmail(
+  configPath: string,
+  config: SendEmailConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForSendEmail(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForSendEmail(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForSendEmail(
+  configPath: string,
+  content: string,
+  config: SendEmailConfig
+): Promise<boolean> {
+  try {
+    const { bindingName, destinationAddresses } = config;
+
+    // Check if binding already exists
+    if (new RegExp(`\\[\\[send_email\\]\\]\\s*name\\s*=\\s*"${bindingName}"`).test(content)) {
+      logger.warn(`Send email binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    const updatedContent = content + `
+# Send Email (destinations must be verified in Email Routing)
+[[send_email]]
+name = "${bindingName}"
+allowed_destination_addresses = [${destinationAddresses.map((a) => `"${a}"`).join(', ')}]
+`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with send_email binding');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForSendEmail(
+  configPath: string,
+  content: string,
+  config: SendEmailConfig
+): Promise<boolean> {
+  try {
+    const { bindingName, destinationAddresses } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if binding already exists
+    const sendEmail = parsedConfig.send_email || [];
+    if (sendEmail.some((b: any) => b.name === bindingName)) {
+      logger.warn(`Send email binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    const newBinding = {
+      name: bindingName,
+      allowed_destination_addresses: destinationAddresses
+    };
+    const edits = jsonc.modify(content, ['send_email'], [...sendEmail, newBinding], {});
+    const updatedContent = jsonc.applyEdits(content, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with send_email binding');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,137 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { execa } from 'execa';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { promptNewEmailProject, promptExistingEmailProject } from './prompts.js';
+import { patchWranglerConfigForSendEmail } from './config.js';
+import {
+  EMAIL_DEPENDENCIES,
+  generateEmailWorkerCode,
+  generateEmailHandlerCode,
+} from './templates.js';
+import { detectPackageManager, getAddDependenciesCommand } from '../../lib/detect.js';
+import { patchEnvBindings, patchHandlerMethod } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface EmailPrimitiveConfig extends PrimitiveConfig {
+  forwardTo: string;
+  blockedSenders: string[];
+  sendEmail: boolean;
+  bindingName?: string;
+  destinationAddresses?: string[];
+}
+
+async function installParser(projectDir: string): Promise<void> {
+  const packageManager = await detectPackageManager(projectDir);
+  const [command, ...args] = getAddDependenciesCommand(packageManager, EMAIL_DEPENDENCIES);
+
+  logger.step(`Installing ${EMAIL_DEPENDENCIES.join(', ')}...`);
+
+  try {
+    await execa(command, args, { cwd: projectDir, stdio: 'inherit' });
+    logger.success(`Installed ${EMAIL_DEPENDENCIES.join(', ')}`);
+  } catch (error) {
+    logger.warn(`Could not install the email parser. Run: ${[command, ...args].join(' ')}`);
+  }
+}
+
+export const EmailPrimitive: Primitive = {
+  id: 'email',
+  name: 'Email Workers',
+  description: 'Inbound email handler with forwarding, rejection and optional send_email',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<EmailPrimitiveConfig | null> {
+    const choices = await promptNewEmailProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<EmailPrimitiveConfig | null> {
+    const choices = await promptExistingEmailProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const emailConfig = config as EmailPrimitiveConfig;
+
+    // Inbound routing is set up in Email Routing; only sending needs a binding
+    if (!emailConfig.sendEmail) {
+      return true;
+    }
+
+    return await patchWranglerConfigForSendEmail(configPath, {
+      bindingName: emailConfig.bindingName!,
+      destinationAddresses: emailConfig.destinationAddresses!,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const emailConfig = config as EmailPrimitiveConfig;
+    const templateOptions = {
+      forwardTo: emailConfig.forwardTo,
+      blockedSenders: emailConfig.blockedSenders,
+      sendEmail: emailConfig.sendEmail
+        ? {
+            bindingName: emailConfig.bindingName!,
+            destinationAddresses: emailConfig.destinationAddresses!,
+          }
+        : undefined,
+    };
+
+    // Existing project: add email.ts next to the entry file and an email handler
+    if (emailConfig.entryFilePath) {
+      const emailPath = path.join(path.dirname(emailConfig.entryFilePath), 'email.ts');
+      if (await fs.pathExists(emailPath)) {
+        logger.warn('email.ts already exists, skipping');
+      } else {
+        await fs.writeFile(emailPath, generateEmailHandlerCode(templateOptions), 'utf-8');
+        logger.success('Created email.ts');
+      }
+
+      if (emailConfig.sendEmail) {
+        await patchEnvBindings(emailConfig.entryFilePath, [
+          { name: emailConfig.bindingName!, type: 'SendEmail' },
+        ]);
+      }
+      await patchHandlerMethod(emailConfig.entryFilePath, {
+        name: 'email',
+        parameters: [
+          { name: 'message', type: 'ForwardableEmailMessage' },
+          { name: 'env', type: 'Env' },
+          { name: 'ctx', type: 'ExecutionContext' },
+        ],
+        returnType: 'Promise<void>',
+        statements: 'await handleEmail(message, env, ctx);',
+        namedImports: ['handleEmail'],
+        importPath: './email',
+      });
+    } else {
+      const srcDir = path.join(projectDir, 'src');
+
+      // Ensure src directory exists
+      await fs.ensureDir(srcDir);
+
+      // Generate index.ts and email.ts
+      await fs.writeFile(path.join(srcDir, 'index.ts'), generateEmailWorkerCode(templateOptions), 'utf-8');
+      await fs.writeFile(path.join(srcDir, 'email.ts'), generateEmailHandlerCode(templateOptions), 'utf-8');
+
+      logger.success('Created Email Workers demo files (index.ts, email.ts)');
+    }
+
+    await installParser(projectDir);
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const emailConfig = config as EmailPrimitiveConfig;
+    return {
+      successMessage: '🎉 Your Email Worker is live!',
+      nextSteps: [
+        `Verify ${emailConfig.forwardTo} as a destination and route an address to this Worker in Email Routing`,
+        'Test locally with a saved .eml file: curl -X POST "http://localhost:8787/cdn-cgi/handler/email?from=sender@example.com&to=hello@example.com" --data-binary @message.eml',
+        'Check the wrangler dev output for the parsed message and forward result',
+      ],
+    };
+  },
+};
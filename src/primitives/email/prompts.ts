@@ -0,0 +1,148 @@
+import prompts from 'prompts';
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export interface NewEmailProjectChoices {
+  projectName: string;
+  forwardTo: string;
+  blockedSenders: string[];
+  sendEmail: boolean;
+  bindingName?: string;
+  destinationAddresses?: string[];
+}
+
+export interface ExistingEmailProjectChoices {
+  forwardTo: string;
+  blockedSenders: string[];
+  sendEmail: boolean;
+  bindingName?: string;
+  destinationAddresses?: string[];
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export async function promptNewEmailProject(): Promise<NewEmailProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with Email Workers!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-email-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-email-worker)',
+    },
+    {
+      type: 'text',
+      name: 'forwardTo',
+      message: 'Forward accepted mail to? (a verified Email Routing destination)',
+      validate: (value: string) =>
+        /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) || 'Must be an email address (e.g., you@example.com)',
+    },
+    {
+      type: 'text',
+      name: 'blockedSenders',
+      message: 'Reject mail from? (comma-separated addresses or @domains, blank for none)',
+      initial: '@spam.example.com',
+      validate: (value: string) =>
+        splitList(value).every((sender) => /^[^\s@]*@[^\s@]+\.[^\s@]+$/.test(sender)) ||
+        'Must be addresses or @domains (e.g., @spam.example.com, bot@example.com)',
+    },
+    {
+      type: 'confirm',
+      name: 'sendEmail',
+      message: 'Add a send_email binding to send notifications?',
+      initial: false,
+    },
+    {
+      type: (prev: boolean) => (prev ? 'text' : null),
+      name: 'bindingName',
+      message: 'Send email binding name?',
+      initial: 'SEND_EMAIL',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., SEND_EMAIL)',
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.sendEmail ? 'text' : null),
+      name: 'destinationAddresses',
+      message: 'Allowed destination addresses? (comma-separated, verified in Email Routing)',
+      initial: (_prev: string, values: prompts.Answers<string>) => values.forwardTo,
+      validate: (value: string) =>
+        (splitList(value).length > 0 &&
+          splitList(value).every((address) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address))) ||
+        'Must be one or more email addresses (e.g., you@example.com)',
+    },
+  ]);
+
+  if (!response.projectName || !response.forwardTo || response.sendEmail === undefined) {
+    return null;
+  }
+
+  return {
+    ...response,
+    blockedSenders: splitList(response.blockedSenders ?? ''),
+    destinationAddresses: response.sendEmail ? splitList(response.destinationAddresses ?? '') : undefined,
+  } as NewEmailProjectChoices;
+}
+
+export async function promptExistingEmailProject(): Promise<ExistingEmailProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'forwardTo',
+      message: 'Forward accepted mail to? (a verified Email Routing destination)',
+      validate: (value: string) =>
+        /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) || 'Must be an email address (e.g., you@example.com)',
+    },
+    {
+      type: 'text',
+      name: 'blockedSenders',
+      message: 'Reject mail from? (comma-separated addresses or @domains, blank for none)',
+      initial: '@spam.example.com',
+      validate: (value: string) =>
+        splitList(value).every((sender) => /^[^\s@]*@[^\s@]+\.[^\s@]+$/.test(sender)) ||
+        'Must be addresses or @domains (e.g., @spam.example.com, bot@example.com)',
+    },
+    {
+      type: 'confirm',
+      name: 'sendEmail',
+      message: 'Add a send_email binding to send notifications?',
+      initial: false,
+    },
+    {
+      type: (prev: boolean) => (prev ? 'text' : null),
+      name: 'bindingName',
+      message: 'Send email binding name?',
+      initial: 'SEND_EMAIL',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., SEND_EMAIL)',
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.sendEmail ? 'text' : null),
+      name: 'destinationAddresses',
+      message: 'Allowed destination addresses? (comma-separated, verified in Email Routing)',
+      initial: (_prev: string, values: prompts.Answers<string>) => values.forwardTo,
+      validate: (value: string) =>
+        (splitList(value).length > 0 &&
+          splitList(value).every((address) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address))) ||
+        'Must be one or more email addresses (e.g., you@example.com)',
+    },
+  ]);
+
+  if (!response.forwardTo || response.sendEmail === undefined) {
+    return null;
+  }
+
+  return {
+    ...response,
+    blockedSenders: splitList(response.blockedSenders ?? ''),
+    destinationAddresses: response.sendEmail ? splitList(response.destinationAddresses ?? '') : undefined,
+  } as ExistingEmailProjectChoices;
+}
@@ -0,0 +1,139 @@
+// Email Workers template interfaces and generators
+
+export interface EmailTemplateOptions {
+  forwardTo: string;
+  blockedSenders: string[];
+  sendEmail?: {
+    bindingName: string;
+    destinationAddresses: string[];
+  };
+}
+
+// Dependencies the generated email.ts imports
+export const EMAIL_DEPENDENCIES = ['postal-mime'];
+
+export function generateEmailWorkerCode(options: EmailTemplateOptions): string {
+  const { sendEmail } = options;
+  const envBody = sendEmail ? `\n  ${sendEmail.bindingName}: SendEmail;\n` : '';
+
+  return `// Cloudflare Email Workers demo
+// Inbound mail handling lives in email.ts; route addresses to this Worker in Email Routing
+
+import { handleEmail } from "./email";
+
+interface Env {${envBody}}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    return new Response("Email Workers Demo\\n\\nPOST a raw message to /cdn-cgi/handler/email?from=...&to=... under wrangler dev", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+
+  // Runs for every message Email Routing delivers to this Worker
+  async email(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext): Promise<void> {
+    await handleEmail(message, env, ctx);
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateEmailHandlerCode(options: EmailTemplateOptions): string {
+  const { forwardTo, blockedSenders, sendEmail } = options;
+  const blocked = blockedSenders.map((sender) => `"${sender.toLowerCase()}"`).join(', ');
+
+  const sendImport = sendEmail ? `import { EmailMessage } from "cloudflare:email";\n` : '';
+  const envBody = sendEmail ? `\n  ${sendEmail.bindingName}: SendEmail;\n` : '';
+  const notifyCall = sendEmail
+    ? `
+
+  // Notifications go out through the send_email binding, off the critical path
+  ctx.waitUntil(notify(env, message.to, email.subject ?? "(no subject)", message.from));`
+    : '';
+  const notifyFunction = sendEmail
+    ? `
+
+// Destination must be one of the binding's allowed_destination_addresses
+const NOTIFY_TO = "${sendEmail.destinationAddresses[0]}";
+
+// Sends a plain-text notice from the address that received the mail, which is
+// on a domain with Email Routing enabled
+async function notify(env: EmailEnv, from: string, subject: string, sender: string): Promise<void> {
+  const raw = [
+    \`From: \${from}\`,
+    \`To: \${NOTIFY_TO}\`,
+    \`Subject: Forwarded: \${subject}\`,
+    \`Message-ID: <\${crypto.randomUUID()}@\${from.split("@")[1]}>\`,
+    \`Date: \${new Date().toUTCString()}\`,
+    "MIME-Version: 1.0",
+    'Content-Type: text/plain; charset="utf-8"',
+    "",
+    \`\${sender} sent "\${subject}" to \${from}; it was forwarded to \${FORWARD_TO}.\`,
+  ].join("\\r\\n");
+
+  try {
+    await env.${sendEmail.bindingName}.send(new EmailMessage(from, NOTIFY_TO, raw));
+  } catch (error) {
+    console.error("Failed to send notification:", error);
+  }
+}`
+    : '';
+
+  return `// Inbound email handler - parse, reject or forward each message
+// Route addresses to this Worker in the dashboard: Email → Email Routing → Routes
+//
+// Rejections return a permanent SMTP error to the sending server.
+// Forwarding only works to verified Email Routing destination addresses.
+
+import PostalMime from "postal-mime";
+${sendImport}
+export interface EmailEnv {${envBody}}
+
+// Where accepted mail is forwarded
+const FORWARD_TO = "${forwardTo}";
+
+// Full addresses or @domains that are rejected outright
+const BLOCKED_SENDERS: string[] = [${blocked}];
+
+// Reject anything bigger than this before reading the body
+const MAX_SIZE_BYTES = 10 * 1024 * 1024;
+
+function isBlocked(from: string): boolean {
+  const sender = from.toLowerCase();
+  return BLOCKED_SENDERS.some((blocked) =>
+    blocked.startsWith("@") ? sender.endsWith(blocked) : sender === blocked
+  );
+}
+
+export async function handleEmail(
+  message: ForwardableEmailMessage,
+  env: EmailEnv,
+  ctx: ExecutionContext
+): Promise<void> {
+  // 1. Reject on envelope data alone - no need to read the message
+  if (isBlocked(message.from)) {
+    message.setReject(\`Sender \${message.from} is not accepted here\`);
+    return;
+  }
+
+  if (message.rawSize > MAX_SIZE_BYTES) {
+    message.setReject("Message too large");
+    return;
+  }
+
+  // 2. Parse the raw MIME stream into headers, text/html bodies and attachments
+  const email = await PostalMime.parse(message.raw);
+
+  console.log(JSON.stringify({
+    from: message.from,
+    to: message.to,
+    subject: email.subject,
+    text: email.text?.slice(0, 200),
+    attachments: email.attachments.map((a) => a.filename),
+  }));
+
+  // 3. Forward, tagging the message so the destination can filter on it
+  await message.forward(FORWARD_TO, new Headers({ "X-Email-Worker": "forwarded" }));${notifyCall}
+}${notifyFunction}
+`;
+}
@@ -0,0 +1,187 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+// Written into the config until the real Hyperdrive config is created.
+// `wrangler dev` connects through localConnectionString and ignores the ID.
+export const HYPERDRIVE_ID_PLACEHOLDER = '<hyperdrive-id>';
+
+export interface HyperdriveConfig {
+  bindingName: string;
+  localConnectionString: string;
+}
+
+export async function updateHyperdriveId(
+  configPath: string,
+  bindingName: string,
+  hyperdriveId: string
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      const bindingPattern = new RegExp(
+        `(binding\\s*=\\s*"${bindingName}"\\s*\\n\\s*id\\s*=\\s*")[^"]*(")`
+      );
+
+      if (!bindingPattern.test(content)) {
+        logger.warn(`Could not find Hyperdrive binding "${bindingName}" in wrangler.toml`);
+        return false;
+      }
+
+      const updatedContent = content.replace(bindingPattern, `$1${hyperdriveId}$2`);
+      await fs.writeFile(configPath, updatedContent, 'utf-8');
+      logger.success(`Updated wrangler.toml with Hyperdrive ID for ${bindingName}`);
+      return true;
+    }
+
+    // Handle JSON/JSONC
+    const parsedConfig = jsonc.parse(content);
+    const hyperdrives = parsedConfig.hyperdrive || [];
+    const index = hyperdrives.findIndex((h: any) => h.binding === bindingName);
+
+    if (index === -1) {
+      logger.warn(`Could not find Hyperdrive binding "${bindingName}" in wrangler config`);
+      return false;
+    }
+
+    const edits = jsonc.modify(content, ['hyperdrive', index, 'id'], hyperdriveId, {});
+    await fs.writeFile(configPath, jsonc.applyEdits(content, edits), 'utf-8');
+    logger.success(`Updated wrangler config with Hyperdrive ID for ${bindingName}`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to update Hyperdrive ID: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+export async function patchWranglerConfigForHyperdrive(
+  configPath: string,
+  config: HyperdriveConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForHyperdrive(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForHyperdrive(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+// Database drivers need the Node.js compatibility layer
+function addNodejsCompatToToml(content: string): string {
+  const flagsPattern = /^compatibility_flags\s*=\s*\[([^\]]*)\]/m;
+  const flagsMatch = content.match(flagsPattern);
+
+  if (flagsMatch) {
+    if (flagsMatch[1].includes('nodejs_compat')) {
+      return content;
+    }
+    const flags = flagsMatch[1].trim();
+    return content.replace(
+      flagsPattern,
+      `compatibility_flags = [${flags ? `${flags}, ` : ''}"nodejs_compat"]`
+    );
+  }
+
+  // Top-level keys must come before the first table
+  const dateMatch = content.match(/^compatibility_date\s*=.*$/m);
+  if (dateMatch) {
+    return content.replace(dateMatch[0], `${dateMatch[0]}\ncompatibility_flags = ["nodejs_compat"]`);
+  }
+  return `compatibility_flags = ["nodejs_compat"]\n${content}`;
+}
+
+async function patchTomlConfigForHyperdrive(
+  configPath: string,
+  content: string,
+  config: HyperdriveConfig
+): Promise<boolean> {
+  try {
+    const { bindingName, localConnectionString } = config;
+
+    // Check if binding already exists
+    if (new RegExp(`\\[\\[hyperdrive\\]\\]\\s*binding\\s*=\\s*"${bindingName}"`).test(content)) {
+      logger.warn(`Hyperdrive binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    let updatedContent = addNodejsCompatToToml(content);
+
+    // The origin connection string is stored by Hyperdrive, never in this file
+    updatedContent += `
+# Hyperdrive
+[[hyperdrive]]
+binding = "${bindingName}"
+id = "${HYPERDRIVE_ID_PLACEHOLDER}"
+localConnectionString = "${localConnectionString}"
+`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with Hyperdrive configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForHyperdrive(
+  configPath: string,
+  content: string,
+  config: HyperdriveConfig
+): Promise<boolean> {
+  try {
+    const { bindingName, localConnectionString } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if binding already exists
+    const hyperdrives = parsedConfig.hyperdrive || [];
+    if (hyperdrives.some((h: any) => h.binding === bindingName)) {
+      logger.warn(`Hyperdrive binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    let updatedContent = content;
+
+    // 1. Enable Node.js compatibility for the database driver
+    const flags: string[] = parsedConfig.compatibility_flags || [];
+    if (!flags.includes('nodejs_compat')) {
+      const edits = jsonc.modify(updatedContent, ['compatibility_flags'], [...flags, 'nodejs_compat'], {});
+      updatedContent = jsonc.applyEdits(updatedContent, edits);
+    }
+
+    // 2. Add Hyperdrive binding - the origin connection string is stored by Hyperdrive, never here
+    const newHyperdrive = {
+      binding: bindingName,
+      id: HYPERDRIVE_ID_PLACEHOLDER,
+      localConnectionString
+    };
+    const edits = jsonc.modify(updatedContent, ['hyperdrive'], [...hyperdrives, newHyperdrive], {});
+    updatedContent = jsonc.applyEdits(updatedContent, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with Hyperdrive configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
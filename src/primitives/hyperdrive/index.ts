@@ -0,0 +1,160 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { execa } from 'execa';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import {
+  HyperdriveDatabase,
+  promptNewHyperdriveProject,
+  promptExistingHyperdriveProject,
+} from './prompts.js';
+import { patchWranglerConfigForHyperdrive, updateHyperdriveId } from './config.js';
+import {
+  HYPERDRIVE_DRIVERS,
+  generateHyperdriveWorkerCode,
+  generateDatabaseRouteCode,
+} from './templates.js';
+import { detectPackageManager, detectProjectContext, getAddDependenciesCommand } from '../../lib/detect.js';
+import { createHyperdriveConfig } from '../../lib/wrangler.js';
+import { patchEnvBindings, patchFetchRoute } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface HyperdrivePrimitiveConfig extends PrimitiveConfig {
+  database: HyperdriveDatabase;
+  configName: string;
+  bindingName: string;
+  connectionString: string; // Production origin - only passed to wrangler, never written to disk
+  localConnectionString: string;
+  hyperdriveId?: string;
+}
+
+async function installDriver(projectDir: string, database: HyperdriveDatabase): Promise<void> {
+  const { dependencies, devDependencies } = HYPERDRIVE_DRIVERS[database];
+  const packageManager = await detectPackageManager(projectDir);
+  const commands = [
+    getAddDependenciesCommand(packageManager, dependencies),
+    ...(devDependencies.length > 0 ? [getAddDependenciesCommand(packageManager, devDependencies, true)] : []),
+  ];
+
+  logger.step(`Installing ${dependencies.join(', ')}...`);
+
+  try {
+    for (const [command, ...args] of commands) {
+      await execa(command, args, { cwd: projectDir, stdio: 'inherit' });
+    }
+    logger.success(`Installed ${dependencies.join(', ')}`);
+  } catch (error) {
+    logger.warn(`Could not install the database driver. Run: ${commands.map((command) => command.join(' ')).join(' && ')}`);
+  }
+}
+
+export const HyperdrivePrimitive: Primitive = {
+  id: 'hyperdrive',
+  name: 'Hyperdrive',
+  description: 'Connect to an existing Postgres or MySQL database',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<HyperdrivePrimitiveConfig | null> {
+    const choices = await promptNewHyperdriveProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<HyperdrivePrimitiveConfig | null> {
+    const choices = await promptExistingHyperdriveProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const hyperdriveConfig = config as HyperdrivePrimitiveConfig;
+    return await patchWranglerConfigForHyperdrive(configPath, {
+      bindingName: hyperdriveConfig.bindingName,
+      localConnectionString: hyperdriveConfig.localConnectionString,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const hyperdriveConfig = config as HyperdrivePrimitiveConfig;
+    const templateOptions = {
+      bindingName: hyperdriveConfig.bindingName,
+      database: hyperdriveConfig.database,
+    };
+
+    // Existing project: add db.ts next to the entry file and route to it
+    if (hyperdriveConfig.entryFilePath) {
+      const dbPath = path.join(path.dirname(hyperdriveConfig.entryFilePath), 'db.ts');
+      if (await fs.pathExists(dbPath)) {
+        logger.warn('db.ts already exists, skipping');
+      } else {
+        await fs.writeFile(dbPath, generateDatabaseRouteCode(templateOptions), 'utf-8');
+        logger.success('Created db.ts');
+      }
+
+      await patchEnvBindings(hyperdriveConfig.entryFilePath, [
+        { name: hyperdriveConfig.bindingName, type: 'Hyperdrive' },
+      ]);
+      await patchFetchRoute(hyperdriveConfig.entryFilePath, {
+        pathPrefix: '/db',
+        handlerName: 'handleDb',
+        importPath: './db',
+      });
+    } else {
+      const srcDir = path.join(projectDir, 'src');
+
+      // Ensure src directory exists
+      await fs.ensureDir(srcDir);
+
+      // Generate index.ts and db.ts
+      await fs.writeFile(path.join(srcDir, 'index.ts'), generateHyperdriveWorkerCode(templateOptions), 'utf-8');
+      await fs.writeFile(path.join(srcDir, 'db.ts'), generateDatabaseRouteCode(templateOptions), 'utf-8');
+
+      logger.success('Created Hyperdrive demo files (index.ts, db.ts)');
+    }
+
+    await installDriver(projectDir, hyperdriveConfig.database);
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const hyperdriveConfig = config as HyperdrivePrimitiveConfig;
+
+    if (hyperdriveConfig.hyperdriveId) {
+      return;
+    }
+
+    const hyperdriveId = await createHyperdriveConfig({
+      configName: hyperdriveConfig.configName,
+      connectionString: hyperdriveConfig.connectionString,
+      cwd: projectDir,
+    });
+
+    if (hyperdriveId) {
+      hyperdriveConfig.hyperdriveId = hyperdriveId;
+
+      // Write the real ID over the placeholder
+      const context = await detectProjectContext(projectDir);
+      if (context.wranglerConfigPath) {
+        await updateHyperdriveId(context.wranglerConfigPath, hyperdriveConfig.bindingName, hyperdriveId);
+      }
+    } else {
+      // Config might already exist, which is okay
+      logger.warn('Hyperdrive config creation failed (it might already exist)');
+      logger.info(`Set the id for ${hyperdriveConfig.bindingName} in your wrangler config before deploying`);
+    }
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const hyperdriveConfig = config as HyperdrivePrimitiveConfig;
+    return {
+      successMessage: '🎉 Your Hyperdrive worker is live!',
+      nextSteps: [
+        'Make sure your local database is running (wrangler dev uses localConnectionString)',
+        'Query it: curl http://localhost:8787/db',
+      ],
+      // Placeholder only - the production connection string is never printed or saved
+      setupCommands: [
+        `npx wrangler hyperdrive create ${hyperdriveConfig.configName} --connection-string="<connection-string>"`,
+        `# then set the id for ${hyperdriveConfig.bindingName} in your wrangler config`,
+      ],
+    };
+  },
+};
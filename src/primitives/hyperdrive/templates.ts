@@ -0,0 +1,127 @@
+// Hyperdrive template interfaces and generators
+
+import { HyperdriveDatabase } from './prompts.js';
+
+export interface HyperdriveTemplateOptions {
+  bindingName: string;
+  database: HyperdriveDatabase;
+}
+
+// npm packages the generated route needs
+export const HYPERDRIVE_DRIVERS: Record<HyperdriveDatabase, { dependencies: string[]; devDependencies: string[] }> = {
+  postgres: { dependencies: ['pg'], devDependencies: ['@types/pg'] },
+  mysql: { dependencies: ['mysql2'], devDependencies: [] },
+};
+
+export function generateHyperdriveWorkerCode(options: HyperdriveTemplateOptions): string {
+  return `// Cloudflare Hyperdrive demo
+// The /db route lives in db.ts
+
+import { handleDb } from "./db";
+
+interface Env {
+  ${options.bindingName}: Hyperdrive;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith("/db")) {
+      return handleDb(request, env);
+    }
+
+    return new Response("Hyperdrive Demo\\n\\nTry GET /db", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateDatabaseRouteCode(options: HyperdriveTemplateOptions): string {
+  return options.database === 'mysql'
+    ? generateMySQLRouteCode(options)
+    : generatePostgresRouteCode(options);
+}
+
+function generatePostgresRouteCode(options: HyperdriveTemplateOptions): string {
+  const { bindingName } = options;
+
+  return `// Postgres through Hyperdrive
+// GET /db  → server time and version
+//
+// Hyperdrive pools connections close to the database, so opening a client
+// per request is cheap. In wrangler dev it connects to localConnectionString.
+
+import { Client } from "pg";
+
+export interface DbEnv {
+  ${bindingName}: Hyperdrive;
+}
+
+export async function handleDb(request: Request, env: DbEnv): Promise<Response> {
+  if (request.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const client = new Client({ connectionString: env.${bindingName}.connectionString });
+
+  try {
+    await client.connect();
+    const result = await client.query("SELECT now() AS now, version() AS version");
+    return Response.json(result.rows[0]);
+  } catch (error) {
+    console.error("Database query failed:", error);
+    return Response.json({ error: "Database query failed" }, { status: 500 });
+  } finally {
+    await client.end();
+  }
+}
+`;
+}
+
+function generateMySQLRouteCode(options: HyperdriveTemplateOptions): string {
+  const { bindingName } = options;
+
+  return `// MySQL through Hyperdrive
+// GET /db  → server time and version
+//
+// Hyperdrive pools connections close to the database, so opening a connection
+// per request is cheap. In wrangler dev it connects to localConnectionString.
+
+import { createConnection, type Connection } from "mysql2/promise";
+
+export interface DbEnv {
+  ${bindingName}: Hyperdrive;
+}
+
+export async function handleDb(request: Request, env: DbEnv): Promise<Response> {
+  if (request.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  let connection: Connection | undefined;
+
+  try {
+    connection = await createConnection({
+      host: env.${bindingName}.host,
+      user: env.${bindingName}.user,
+      password: env.${bindingName}.password,
+      database: env.${bindingName}.database,
+      port: env.${bindingName}.port,
+      // Workers don't allow eval(), which mysql2 uses by default
+      disableEval: true,
+    });
+
+    const [rows] = await connection.query("SELECT NOW() AS now, VERSION() AS version");
+    return Response.json(Array.isArray(rows) ? rows[0] : rows);
+  } catch (error) {
+    console.error("Database query failed:", error);
+    return Response.json({ error: "Database query failed" }, { status: 500 });
+  } finally {
+    await connection?.end();
+  }
+}
+`;
+}
@@ -8,10 +8,40 @@
 
 import { registry } from './registry.js';
 import { QueuesPrimitive } from './queues/index.js';
+import { KVPrimitive } from './kv/index.js';
+import { D1Primitive } from './d1/index.js';
+import { R2Primitive } from './r2/index.js';
+import { DurableObjectsPrimitive } from './durable-objects/index.js';
+import { CronPrimitive } from './cron/index.js';
+import { WorkflowsPrimitive } from './workflows/index.js';
+import { AIPrimitive } from './ai/index.js';
+import { VectorizePrimitive } from './vectorize/index.js';
+import { HyperdrivePrimitive } from './hyperdrive/index.js';
+import { AnalyticsEnginePrimitive } from './analytics-engine/index.js';
+import { AssetsPrimitive } from './assets/index.js';
+import { SecretsPrimitive } from './secrets/index.js';
+import { RateLimitPrimitive } from './rate-limit/index.js';
+import { EmailPrimitive } from './email/index.js';
+import { ServiceBindingPrimitive } from './service-binding/index.js';
 import { WorkerOnlyPrimitive } from './worker-only/index.js';
 
 // Register all primitives
 registry.register(QueuesPrimitive);
+registry.register(KVPrimitive);
+registry.register(D1Primitive);
+registry.register(R2Primitive);
+registry.register(DurableObjectsPrimitive);
+registry.register(CronPrimitive);
+registry.register(WorkflowsPrimitive);
+registry.register(AIPrimitive);
+registry.register(VectorizePrimitive);
+registry.register(HyperdrivePrimitive);
+registry.register(AnalyticsEnginePrimitive);
+registry.register(AssetsPrimitive);
+registry.register(SecretsPrimitive);
+registry.register(RateLimitPrimitive);
+registry.register(EmailPrimitive);
+registry.register(ServiceBindingPrimitive);
 registry.register(WorkerOnlyPrimitive);
 
 export { registry };
@@ -0,0 +1,55 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { KVBinding } from '../../lib/config.js';
+import { logger } from '../../lib/logger.js';
+
+// Written into the config until the real namespace is created.
+// `wrangler dev` accepts any ID for local KV storage.
+export const KV_NAMESPACE_ID_PLACEHOLDER = '<namespace-id>';
+
+export async function updateKVNamespaceId(
+  configPath: string,
+  bindingName: string,
+  namespaceId: string
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      const bindingPattern = new RegExp(
+        `(binding\\s*=\\s*"${bindingName}"\\s*\\n\\s*id\\s*=\\s*")[^"]*(")`
+      );
+
+      if (!bindingPattern.test(content)) {
+        logger.warn(`Could not find KV binding "${bindingName}" in wrangler.toml`);
+        return false;
+      }
+
+      const updatedContent = content.replace(bindingPattern, `$1${namespaceId}$2`);
+      await fs.writeFile(configPath, updatedContent, 'utf-8');
+      logger.success(`Updated wrangler.toml with KV namespace ID for ${bindingName}`);
+      return true;
+    }
+
+    // Handle JSON/JSONC
+    const parsedConfig = jsonc.parse(content);
+    const namespaces: KVBinding[] = parsedConfig.kv_namespaces || [];
+    const index = namespaces.findIndex((ns) => ns.binding === bindingName);
+
+    if (index === -1) {
+      logger.warn(`Could not find KV binding "${bindingName}" in wrangler config`);
+      return false;
+    }
+
+    const edits = jsonc.modify(content, ['kv_namespaces', index, 'id'], namespaceId, {});
+    await fs.writeFile(configPath, jsonc.applyEdits(content, edits), 'utf-8');
+    logger.success(`Updated wrangler config with KV namespace ID for ${bindingName}`);
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to update KV namespace ID: ${error.message}`);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,184 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { promptNewProject, promptExistingProject } from '../../lib/prompts.js';
+import { patchWranglerConfig } from '../../lib/config.js';
+import { createKVNamespace } from '../../lib/wrangler.js';
+import { patchEnvBindings, patchFetchRoute } from '../../lib/ast-patcher.js';
+import { detectProjectContext } from '../../lib/detect.js';
+import { coloredPrompts } from '../../lib/helpers.js';
+import { logger } from '../../lib/logger.js';
+import { KV_NAMESPACE_ID_PLACEHOLDER, updateKVNamespaceId } from './config.js';
+import { generateKVWorkerCode, generateKVRouteCode } from './templates.js';
+
+export interface KVPrimitiveConfig extends PrimitiveConfig {
+  bindingName: string;
+  includeDemo: boolean;
+  createNamespace: boolean;
+  namespaceId?: string;
+  action?: 'add-demo' | 'add-empty' | 'new-subfolder';
+}
+
+export const KVPrimitive: Primitive = {
+  id: 'kv',
+  name: 'KV',
+  description: 'Workers KV namespace with a JSON API demo',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<KVPrimitiveConfig | null> {
+    const choices = await promptNewProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<KVPrimitiveConfig | null> {
+    const choices = await promptExistingProject();
+    if (!choices) return null;
+
+    if (choices.action === 'new-subfolder') {
+      const response = await coloredPrompts({
+        type: 'text',
+        name: 'projectName',
+        message: 'Project name?',
+        initial: 'my-kv-worker',
+        validate: (value: string) =>
+          /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-kv-worker)',
+      });
+
+      if (!response.projectName) return null;
+
+      return {
+        action: choices.action,
+        projectName: response.projectName,
+        bindingName: choices.bindingName,
+        includeDemo: true,
+        createNamespace: choices.createNamespace,
+      };
+    }
+
+    return {
+      action: choices.action,
+      bindingName: choices.bindingName,
+      includeDemo: choices.action === 'add-demo',
+      createNamespace: choices.createNamespace,
+    };
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const kvConfig = config as KVPrimitiveConfig;
+
+    if (kvConfig.createNamespace && !kvConfig.namespaceId) {
+      const namespaceId = await createKVNamespace({
+        bindingName: kvConfig.bindingName,
+        cwd: path.dirname(configPath),
+      });
+      if (namespaceId) {
+        kvConfig.namespaceId = namespaceId;
+      }
+    }
+
+    return await patchWranglerConfig(
+      configPath,
+      kvConfig.bindingName,
+      kvConfig.namespaceId ?? KV_NAMESPACE_ID_PLACEHOLDER
+    );
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const kvConfig = config as KVPrimitiveConfig;
+
+    const templateOptions = {
+      bindingName: kvConfig.bindingName,
+      includeDemo: kvConfig.includeDemo,
+    };
+
+    // Existing project: patch the Env interface and, for the demo, add kv.ts and route to it
+    if (kvConfig.entryFilePath) {
+      await patchEnvBindings(kvConfig.entryFilePath, [
+        { name: kvConfig.bindingName, type: 'KVNamespace' },
+      ]);
+
+      if (!kvConfig.includeDemo) {
+        return;
+      }
+
+      const routePath = path.join(path.dirname(kvConfig.entryFilePath), 'kv.ts');
+      if (await fs.pathExists(routePath)) {
+        logger.warn('kv.ts already exists, skipping');
+      } else {
+        await fs.writeFile(routePath, generateKVRouteCode(templateOptions), 'utf-8');
+        logger.success('Created kv.ts');
+      }
+
+      await patchFetchRoute(kvConfig.entryFilePath, {
+        pathPrefix: '/kv',
+        handlerName: 'handleKV',
+        importPath: './kv',
+      });
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate index.ts with the KV worker, plus kv.ts for the demo routes
+    await fs.writeFile(path.join(srcDir, 'index.ts'), generateKVWorkerCode(templateOptions), 'utf-8');
+
+    if (kvConfig.includeDemo) {
+      await fs.writeFile(path.join(srcDir, 'kv.ts'), generateKVRouteCode(templateOptions), 'utf-8');
+      logger.success('Created KV worker (index.ts, kv.ts)');
+      return;
+    }
+
+    logger.success('Created KV worker (index.ts)');
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const kvConfig = config as KVPrimitiveConfig;
+
+    if (kvConfig.namespaceId) {
+      logger.info(`KV namespace for ${kvConfig.bindingName} already created (${kvConfig.namespaceId})`);
+      return;
+    }
+
+    const namespaceId = await createKVNamespace({
+      bindingName: kvConfig.bindingName,
+      cwd: projectDir,
+    });
+
+    if (!namespaceId) {
+      logger.warn('KV namespace creation failed (it might already exist)');
+      logger.info(`Set the namespace ID for ${kvConfig.bindingName} in your wrangler config before deploying`);
+      return;
+    }
+
+    kvConfig.namespaceId = namespaceId;
+
+    // Write the real ID over the placeholder
+    const context = await detectProjectContext(projectDir);
+    if (context.wranglerConfigPath) {
+      await updateKVNamespaceId(context.wranglerConfigPath, kvConfig.bindingName, namespaceId);
+    }
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const kvConfig = config as KVPrimitiveConfig;
+    return {
+      successMessage: '🎉 Your KV worker is live!',
+      nextSteps: kvConfig.includeDemo
+        ? [
+            'Write a value: curl -X PUT "http://localhost:8787/kv?key=hello" -d "world"',
+            'Read it back: curl "http://localhost:8787/kv?key=hello"',
+            'List keys: curl "http://localhost:8787/kv"',
+            'Delete it: curl -X DELETE "http://localhost:8787/kv?key=hello"',
+          ]
+        : [`Use env.${kvConfig.bindingName} in your fetch handler to read and write values`],
+      setupCommands: kvConfig.namespaceId
+        ? []
+        : [`npx wrangler kv namespace create ${kvConfig.bindingName}`],
+    };
+  },
+};
@@ -0,0 +1,103 @@
+// KV template interfaces and generators
+
+export interface KVTemplateOptions {
+  bindingName: string;
+  includeDemo: boolean;
+}
+
+export function generateKVWorkerCode(options: KVTemplateOptions): string {
+  if (!options.includeDemo) {
+    return `interface Env {
+  ${options.bindingName}: KVNamespace;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    return new Response("Hello World!");
+  },
+} satisfies ExportedHandler<Env>;
+`;
+  }
+
+  return `// Cloudflare Workers KV - JSON API demo
+// The /kv routes live in kv.ts
+
+import { handleKV } from "./kv";
+
+interface Env {
+  ${options.bindingName}: KVNamespace;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === "/kv") {
+      return handleKV(request, env);
+    }
+
+    return new Response("KV Demo\\n\\nTry GET /kv or PUT /kv?key=hello", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateKVRouteCode(options: KVTemplateOptions): string {
+  return `// JSON API for the ${options.bindingName} KV namespace
+// GET    /kv            → list keys
+// GET    /kv?key=name   → read a value
+// PUT    /kv?key=name   → write the request body as the value (POST works too)
+// DELETE /kv?key=name   → delete a value
+
+export interface KVEnv {
+  ${options.bindingName}: KVNamespace;
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export async function handleKV(request: Request, env: KVEnv): Promise<Response> {
+  const key = new URL(request.url).searchParams.get("key");
+
+  // GET /kv - List keys
+  if (request.method === "GET" && !key) {
+    const { keys } = await env.${options.bindingName}.list();
+    return json({ keys: keys.map((k) => k.name) });
+  }
+
+  if (!key) {
+    return json({ error: "Missing ?key" }, 400);
+  }
+
+  // GET /kv?key= - Read a value
+  if (request.method === "GET") {
+    const value = await env.${options.bindingName}.get(key);
+    if (value === null) {
+      return json({ error: "Not found" }, 404);
+    }
+    return json({ key, value });
+  }
+
+  // PUT /kv?key= - Write a value
+  if (request.method === "PUT" || request.method === "POST") {
+    const value = await request.text();
+    await env.${options.bindingName}.put(key, value);
+    return json({ key, value }, 201);
+  }
+
+  // DELETE /kv?key= - Delete a value
+  if (request.method === "DELETE") {
+    await env.${options.bindingName}.delete(key);
+    return json({ key, deleted: true });
+  }
+
+  return json({ error: "Method not allowed" }, 405);
+}
+`;
+}
@@ -1,13 +1,22 @@
 import fs from 'fs-extra';
 import * as jsonc from 'jsonc-parser';
 import { logger } from '../../lib/logger.js';
+import { getNextMigrationTag, getTomlMigrationTags } from '../../lib/migrations.js';
+import type { QueueConsumerType, QueueRole } from './prompts.js';
 
 export interface QueueConfig {
   queueName: string;
-  bindingName: string;
+  bindingName?: string; // Unset for consumer-only Workers
+  role?: QueueRole; // Which half of the queue to configure, defaults to 'both'
+  consumerType?: QueueConsumerType; // http_pull consumers ignore batch size, timeout and concurrency
   maxBatchSize?: number;
   maxBatchTimeout?: number;
   maxRetries?: number;
+  maxConcurrency?: number; // Unset lets the consumer autoscale
+  retryDelay?: number; // Seconds before a retried message is redelivered
+  deadLetterQueue?: string; // Messages that exhaust maxRetries are moved here
+  dashboard?: boolean; // EventStore and HTML rule for the dashboard demo, defaults to role === 'both'
+  dashboardAsAsset?: boolean; // Dashboard is a static asset, so no **/*.html Text rule
 }
 
 export async function patchWranglerConfigForQueues(
@@ -43,19 +52,39 @@ async function patchTomlConfigForQueues(
       bindingName,
       maxBatchSize = 4,
       maxBatchTimeout = 3,
-      maxRetries = 3
+      maxRetries = 3,
+      maxConcurrency,
+      retryDelay,
+      deadLetterQueue,
+      role = 'both',
+      consumerType = 'worker',
+      dashboardAsAsset = false
     } = config;
 
-    // Check if queue already exists
-    if (content.includes(`queue = "${queueName}"`)) {
+    // Only the dashboard demo logs to EventStore and serves the dashboard
+    const addProducer = role !== 'consumer' && !hasTomlQueueEntry(content, 'producers', queueName);
+    const addConsumer = role !== 'producer' && !hasTomlQueueEntry(content, 'consumers', queueName);
+    const dashboard = config.dashboard ?? role === 'both';
+
+    if (
+      dashboard &&
+      content.includes('new_classes = ["EventStore"]') &&
+      !content.includes('new_sqlite_classes = ["EventStore"]')
+    ) {
+      printEventStoreMigrationError();
+      return false;
+    }
+
+    // Existing queue entries are left alone, but the dashboard still needs its rule,
+    // EventStore binding and migration (e.g. adding the dashboard after a minimal setup)
+    if (!addProducer && !addConsumer) {
       logger.warn(`Queue "${queueName}" already exists in config`);
-      return true;
     }
 
     let updatedContent = content;
 
     // 1. Add HTML module rule if not present
-    if (!content.includes('globs = ["**/*.html"]')) {
+    if (dashboard && !dashboardAsAsset && !content.includes('globs = ["**/*.html"]')) {
       const htmlRule = `
 [[rules]]
 type = "Text"
@@ -65,23 +94,48 @@ fallthrough = true
       updatedContent += htmlRule;
     }
 
-    // 2. Add queue producer and consumer configuration
-    const queueConfig = `
-# Queue Configuration
+    // 2. Add queue producer and/or consumer configuration
+    const producerConfig = addProducer
+      ? `
 [[queues.producers]]
 queue = "${queueName}"
 binding = "${bindingName}"
-
+`
+      : '';
+    // Pull consumers choose their batch size and retry delay per request
+    const consumerConfig = addConsumer && consumerType === 'http_pull'
+      ? `
+[[queues.consumers]]
+queue = "${queueName}"
+type = "http_pull"
+max_retries = ${maxRetries}
+${deadLetterQueue ? `dead_letter_queue = "${deadLetterQueue}"\n` : ''}`
+      : addConsumer
+      ? `
 [[queues.consumers]]
 queue = "${queueName}"
 max_batch_size = ${maxBatchSize}
 max_batch_timeout = ${maxBatchTimeout}
 max_retries = ${maxRetries}
+${maxConcurrency !== undefined ? `max_concurrency = ${maxConcurrency}\n` : ''}\
+${retryDelay !== undefined ? `retry_delay = ${retryDelay}\n` : ''}\
+${deadLetterQueue ? `dead_letter_queue = "${deadLetterQueue}"\n` : ''}`
+      : '';
+    if (addProducer || addConsumer) {
+      updatedContent += `\n# Queue Configuration${producerConfig}${consumerConfig}`;
+    }
+
+    // 3. The dashboard demo consumes the dead-letter queue too, so dead-lettered messages
+    // reach its DLQ lane; elsewhere they stay in the DLQ until someone inspects or replays them
+    if (dashboard && addConsumer && consumerType === 'worker' && deadLetterQueue && !hasTomlQueueEntry(content, 'consumers', deadLetterQueue)) {
+      updatedContent += `
+[[queues.consumers]]
+queue = "${deadLetterQueue}"
 `;
-    updatedContent += queueConfig;
+    }
 
-    // 3. Add Durable Object binding if not present
-    if (!content.includes('name = "EVENT_STORE"')) {
+    // 4. Add Durable Object binding if not present
+    if (dashboard && !content.includes('name = "EVENT_STORE"')) {
       const doBinding = `
 # Durable Object for Event Storage
 [[durable_objects.bindings]]
@@ -91,17 +145,22 @@ class_name = "EventStore"
       updatedContent += doBinding;
     }
 
-    // 4. Add migration if not present
-    if (!content.includes('new_classes = ["EventStore"]')) {
+    // 5. Add migration if not present (EventStore keeps its history in SQLite storage)
+    if (dashboard && !content.includes('new_sqlite_classes = ["EventStore"]')) {
+      const tag = getNextMigrationTag(getTomlMigrationTags(content));
       const migration = `
 # Durable Object Migrations
 [[migrations]]
-tag = "v1"
-new_classes = ["EventStore"]
+tag = "${tag}"
+new_sqlite_classes = ["EventStore"]
 `;
       updatedContent += migration;
     }
 
+    if (updatedContent === content) {
+      return true;
+    }
+
     await fs.writeFile(configPath, updatedContent, 'utf-8');
     logger.success('Updated wrangler.toml with queue configuration');
     return true;
@@ -124,15 +183,38 @@ async function patchJsonConfigForQueues(
       bindingName,
       maxBatchSize = 4,
       maxBatchTimeout = 3,
-      maxRetries = 3
+      maxRetries = 3,
+      maxConcurrency,
+      retryDelay,
+      deadLetterQueue,
+      role = 'both',
+      consumerType = 'worker',
+      dashboardAsAsset = false
     } = config;
 
     const parsedConfig = jsonc.parse(content);
 
-    // Check if queue already exists
-    if (parsedConfig.queues?.producers?.some((p: any) => p.queue === queueName)) {
+    // Only the dashboard demo logs to EventStore and serves the dashboard
+    const producers = parsedConfig.queues?.producers || [];
+    const consumers = parsedConfig.queues?.consumers || [];
+    const addProducer = role !== 'consumer' && !producers.some((p: any) => p.queue === queueName);
+    const addConsumer = role !== 'producer' && !consumers.some((c: any) => c.queue === queueName);
+    const dashboard = config.dashboard ?? role === 'both';
+    const migrations = parsedConfig.migrations || [];
+
+    if (
+      dashboard &&
+      migrations.some((m: any) => m.new_classes?.includes('EventStore')) &&
+      !migrations.some((m: any) => m.new_sqlite_classes?.includes('EventStore'))
+    ) {
+      printEventStoreMigrationError();
+      return false;
+    }
+
+    // Existing queue entries are left alone, but the dashboard still needs its rule,
+    // EventStore binding and migration (e.g. adding the dashboard after a minimal setup)
+    if (!addProducer && !addConsumer) {
       logger.warn(`Queue "${queueName}" already exists in config`);
-      return true;
     }
 
     let updatedContent = content;
@@ -143,7 +225,7 @@ async function patchJsonConfigForQueues(
       r.type === 'Text' && r.globs?.includes('**/*.html')
     );
 
-    if (!hasHtmlRule) {
+    if (dashboard && !dashboardAsAsset && !hasHtmlRule) {
       const htmlRule = {
         type: 'Text',
         globs: ['**/*.html'],
@@ -154,40 +236,60 @@ async function patchJsonConfigForQueues(
     }
 
     // 2. Add queue producer
-    const producers = parsedConfig.queues?.producers || [];
-    const newProducer = {
-      queue: queueName,
-      binding: bindingName
-    };
-    let edits = jsonc.modify(
-      updatedContent,
-      ['queues', 'producers'],
-      [...producers, newProducer],
-      {}
-    );
-    updatedContent = jsonc.applyEdits(updatedContent, edits);
+    let edits: jsonc.Edit[];
+    if (addProducer) {
+      const newProducer = {
+        queue: queueName,
+        binding: bindingName
+      };
+      edits = jsonc.modify(
+        updatedContent,
+        ['queues', 'producers'],
+        [...producers, newProducer],
+        {}
+      );
+      updatedContent = jsonc.applyEdits(updatedContent, edits);
+    }
 
     // 3. Add queue consumer
-    const consumers = parsedConfig.queues?.consumers || [];
-    const newConsumer = {
-      queue: queueName,
-      max_batch_size: maxBatchSize,
-      max_batch_timeout: maxBatchTimeout,
-      max_retries: maxRetries
-    };
-    edits = jsonc.modify(
-      updatedContent,
-      ['queues', 'consumers'],
-      [...consumers, newConsumer],
-      {}
-    );
-    updatedContent = jsonc.applyEdits(updatedContent, edits);
+    if (addConsumer) {
+      // Pull consumers choose their batch size and retry delay per request
+      const newConsumer = consumerType === 'http_pull'
+        ? {
+            queue: queueName,
+            type: 'http_pull',
+            max_retries: maxRetries,
+            ...(deadLetterQueue && { dead_letter_queue: deadLetterQueue })
+          }
+        : {
+            queue: queueName,
+            max_batch_size: maxBatchSize,
+            max_batch_timeout: maxBatchTimeout,
+            max_retries: maxRetries,
+            ...(maxConcurrency !== undefined && { max_concurrency: maxConcurrency }),
+            ...(retryDelay !== undefined && { retry_delay: retryDelay }),
+            ...(deadLetterQueue && { dead_letter_queue: deadLetterQueue })
+          };
+      // The dashboard demo consumes the dead-letter queue too, so dead-lettered messages
+      // reach its DLQ lane; elsewhere they stay in the DLQ until someone inspects or replays them
+      const hasDeadLetterConsumer = consumers.some((c: any) => c.queue === deadLetterQueue);
+      const deadLetterConsumers = dashboard && consumerType === 'worker' && deadLetterQueue && !hasDeadLetterConsumer
+        ? [{ queue: deadLetterQueue }]
+        : [];
+      edits = jsonc.modify(
+        updatedContent,
+        ['queues', 'consumers'],
+        [...consumers, newConsumer, ...deadLetterConsumers],
+        {}
+      );
+      updatedContent = jsonc.applyEdits(updatedContent, edits);
+    }
 
     // 4. Add Durable Object binding if not present
     const doBindings = parsedConfig.durable_objects?.bindings || [];
     const hasEventStore = doBindings.some((b: any) => b.name === 'EVENT_STORE');
 
-    if (!hasEventStore) {
+    if (dashboard && !hasEventStore) {
       const newBinding = {
         name: 'EVENT_STORE',
         class_name: 'EventStore'
@@ -201,16 +303,15 @@ async function patchJsonConfigForQueues(
       updatedContent = jsonc.applyEdits(updatedContent, edits);
     }
 
-    // 5. Add migration if not present
-    const migrations = parsedConfig.migrations || [];
+    // 5. Add migration if not present (EventStore keeps its history in SQLite storage)
     const hasMigration = migrations.some((m: any) =>
-      m.new_classes?.includes('EventStore')
+      m.new_sqlite_classes?.includes('EventStore')
     );
 
-    if (!hasMigration) {
+    if (dashboard && !hasMigration) {
       const newMigration = {
-        tag: 'v1',
-        new_classes: ['EventStore']
+        tag: getNextMigrationTag(migrations.map((m: any) => m.tag)),
+        new_sqlite_classes: ['EventStore']
       };
       edits = jsonc.modify(
         updatedContent,
@@ -221,6 +322,10 @@ async function patchJsonConfigForQueues(
       updatedContent = jsonc.applyEdits(updatedContent, edits);
     }
 
+    if (updatedContent === content) {
+      return true;
+    }
+
     await fs.writeFile(configPath, updatedContent, 'utf-8');
     logger.success('Updated wrangler config with queue configuration');
     return true;
@@ -231,3 +336,20 @@ async function patchJsonConfigForQueues(
     return false;
   }
 }
+
+// Matches a queue = "name" entry inside a [[queues.producers]] or [[queues.consumers]] table
+function hasTomlQueueEntry(
+  content: string,
+  table: 'producers' | 'consumers',
+  queueName: string
+): boolean {
+  return new RegExp(`\\[\\[queues\\.${table}\\]\\][^\\[]*queue\\s*=\\s*"${queueName}"`).test(content);
+}
+
+// The dashboard's EventStore keeps its history in SQLite storage, which a class first
+// created with new_classes can't use, so the existing Worker has to migrate it first
+function printEventStoreMigrationError(): void {
+  logger.error('EventStore was created with a new_classes migration, but the dashboard needs SQLite storage');
+  console.log('\nMigrate it first: add a migration with deleted_classes = ["EventStore"], then another');
+  console.log('with new_sqlite_classes = ["EventStore"] (this deletes its stored events), and run this again.\n');
+}
@@ -2,15 +2,111 @@ import path from 'node:path';
 import fs from 'fs-extra';
 import { execa } from 'execa';
 import { Primitive, PrimitiveConfig } from '../base.js';
-import { promptNewQueueProject, promptExistingQueueProject } from './prompts.js';
+import {
+  ExistingQueueProjectChoices,
+  QueueConsumerType,
+  QueueRole,
+  promptNewQueueProject,
+  promptExistingQueueProject,
+} from './prompts.js';
 import { patchWranglerConfigForQueues } from './config.js';
-import { generateQueueWorkerCode, generateEventStoreCode, generateDashboardHTML } from './templates.js';
+import { MessageSchema, loadMessageSchema, getSampleMessages } from './schema.js';
+import {
+  QueueTemplateOptions,
+  generateMessagesModuleCode,
+  generateQueueWorkerCode,
+  generateQueueProducerCode,
+  generateQueueConsumerCode,
+  generatePullClientCode,
+  PULL_CLIENT_PATH,
+  generateEventStoreCode,
+  generateDashboardHTML,
+} from './templates.js';
+import {
+  patchEnvBindings,
+  patchEntryExport,
+  patchFetchRoute,
+  patchHandlerMethod,
+} from '../../lib/ast-patcher.js';
 import { logger } from '../../lib/logger.js';
 
 export interface QueuesPrimitiveConfig extends PrimitiveConfig {
   projectName: string;
+  action?: ExistingQueueProjectChoices['action']; // Set for existing projects
   queueName: string;
-  bindingName: string;
+  bindingName?: string; // Unset for consumer-only Workers
+  role?: QueueRole; // Unset means producer and consumer (the dashboard demo)
+  existingQueue?: boolean; // Attach to a queue that is already created
+  consumerType?: QueueConsumerType; // Consumer-only Workers can be consumed over HTTP pull instead
+  messageSchema?: MessageSchema; // Typed messages, written to src/messages.ts
+  ackMode?: QueueTemplateOptions['ackMode']; // Unset means whole-batch ack/retry
+  backoff?: QueueTemplateOptions['backoff'];
+  maxBatchSize?: number;
+  maxBatchTimeout?: number;
+  maxRetries?: number;
+  maxConcurrency?: number;
+  retryDelay?: number;
+  deadLetterQueue?: string;
+  workflow?: QueueTemplateOptions['workflow']; // Set when composed by WorkflowsPrimitive
+  analytics?: QueueTemplateOptions['analytics']; // Set when composed by AnalyticsEnginePrimitive
+  rateLimit?: QueueTemplateOptions['rateLimit']; // Set when composed by RateLimitPrimitive
+  assets?: QueueTemplateOptions['assets'] & { directory: string }; // Set when composed by AssetsPrimitive
+}
+
+// Existing Workers get the dashboard demo under this path, leaving their own routes alone
+const DASHBOARD_PATH = '/queues';
+
+async function writeModule(filePath: string, code: string): Promise<void> {
+  if (await fs.pathExists(filePath)) {
+    logger.warn(`${path.basename(filePath)} already exists, skipping`);
+    return;
+  }
+
+  await fs.writeFile(filePath, code, 'utf-8');
+  logger.success(`Created ${path.basename(filePath)}`);
+}
+
+// writeModule keeps an existing event-store.ts, but one from before events were stored
+// in SQLite answers GET /events with a bare array the dashboard no longer reads
+async function hasOutdatedEventStore(entryFilePath: string): Promise<boolean> {
+  const eventStorePath = path.join(path.dirname(entryFilePath), 'event-store.ts');
+  if (!(await fs.pathExists(eventStorePath))) {
+    return false;
+  }
+
+  const code = await fs.readFile(eventStorePath, 'utf-8');
+  return !code.includes('storage.sql');
+}
+
+// Route the entry file's queue batches to a generated module's handleQueueBatch
+async function patchQueueHandler(entryFilePath: string, importPath: string): Promise<void> {
+  await patchHandlerMethod(entryFilePath, {
+    name: 'queue',
+    parameters: [
+      { name: 'batch', type: 'MessageBatch' },
+      { name: 'env', type: 'Env' },
+    ],
+    returnType: 'Promise<void>',
+    statements: 'await handleQueueBatch(batch, env);',
+    namedImports: ['handleQueueBatch'],
+    importPath,
+  });
+}
+
+async function createQueue(projectDir: string, queueName: string): Promise<void> {
+  logger.step(`Creating queue: ${queueName}...`);
+
+  try {
+    await execa('npx', ['wrangler', 'queues', 'create', queueName], {
+      cwd: projectDir,
+      stdio: 'inherit',
+    });
+    logger.success(`Queue "${queueName}" created`);
+  } catch (error) {
+    // Queue might already exist, which is okay
+    logger.warn(`Queue creation failed (it might already exist)`);
+    logger.info('Continuing with deployment...');
+  }
 }
 
 export const QueuesPrimitive: Primitive = {
@@ -23,28 +119,85 @@ export const QueuesPrimitive: Primitive = {
 
   async promptNew(): Promise<QueuesPrimitiveConfig | null> {
     const choices = await promptNewQueueProject();
-    return choices;
+    if (!choices) return null;
+
+    return {
+      projectName: choices.projectName,
+      queueName: choices.queueName,
+      bindingName: choices.bindingName,
+      role: choices.role,
+      existingQueue: choices.existingQueue,
+      consumerType: choices.consumerType,
+      messageSchema: choices.messageSchema
+        ? loadMessageSchema(path.resolve(choices.messageSchema))
+        : undefined,
+      ackMode: choices.ackMode,
+      backoff: choices.backoff,
+      maxBatchSize: choices.maxBatchSize,
+      maxBatchTimeout: choices.maxBatchTimeout,
+      maxRetries: choices.maxRetries,
+      maxConcurrency: choices.maxConcurrency,
+      retryDelay: choices.retryDelay,
+      deadLetterQueue: choices.deadLetterQueue,
+    };
   },
 
   async promptExisting(): Promise<QueuesPrimitiveConfig | null> {
     const choices = await promptExistingQueueProject();
     if (!choices) return null;
 
-    // For existing projects, we don't have projectName
+    // Only new-subfolder scaffolds a project (and has a projectName)
     return {
+      action: choices.action,
+      projectName: choices.projectName,
       queueName: choices.queueName,
       bindingName: choices.bindingName,
+      role: choices.role,
+      existingQueue: choices.existingQueue,
+      consumerType: choices.consumerType,
+      messageSchema: choices.messageSchema
+        ? loadMessageSchema(path.resolve(choices.messageSchema))
+        : undefined,
+      ackMode: choices.ackMode,
+      backoff: choices.backoff,
+      maxBatchSize: choices.maxBatchSize,
+      maxBatchTimeout: choices.maxBatchTimeout,
+      maxRetries: choices.maxRetries,
+      maxConcurrency: choices.maxConcurrency,
+      retryDelay: choices.retryDelay,
+      deadLetterQueue: choices.deadLetterQueue,
     } as QueuesPrimitiveConfig;
   },
 
   async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
     const queueConfig = config as QueuesPrimitiveConfig;
+
+    if (
+      queueConfig.action === 'add-dashboard' &&
+      queueConfig.entryFilePath &&
+      (await hasOutdatedEventStore(queueConfig.entryFilePath))
+    ) {
+      logger.error('event-store.ts predates the SQLite-backed event history the dashboard reads');
+      console.log('\nDelete it (and dashboard.html) so they are regenerated, then run this again.\n');
+      return false;
+    }
+
     return await patchWranglerConfigForQueues(configPath, {
       queueName: queueConfig.queueName,
       bindingName: queueConfig.bindingName,
-      maxBatchSize: 4,
-      maxBatchTimeout: 3,
-      maxRetries: 3,
+      role: queueConfig.role,
+      consumerType: queueConfig.consumerType,
+      maxBatchSize: queueConfig.maxBatchSize,
+      maxBatchTimeout: queueConfig.maxBatchTimeout,
+      maxRetries: queueConfig.maxRetries,
+      maxConcurrency: queueConfig.maxConcurrency,
+      retryDelay: queueConfig.retryDelay,
+      deadLetterQueue: queueConfig.deadLetterQueue,
+      // The minimal setup patches the existing entry file and has no dashboard
+      dashboard:
+        (queueConfig.role ?? 'both') === 'both' &&
+        !(queueConfig.action === 'add-minimal' && queueConfig.entryFilePath),
+      dashboardAsAsset: !!queueConfig.assets,
     });
   },
 
@@ -55,11 +208,131 @@ export const QueuesPrimitive: Primitive = {
     // Ensure src directory exists
     await fs.ensureDir(srcDir);
 
+    const entryFilePath = queueConfig.entryFilePath ?? path.join(srcDir, 'index.ts');
+    const entryDir = path.dirname(entryFilePath);
+    const deadLetterQueue = queueConfig.deadLetterQueue
+      ? { queueName: queueConfig.deadLetterQueue }
+      : undefined;
+    const messageSchema = queueConfig.messageSchema
+      ? { types: queueConfig.messageSchema.types.map((messageType) => messageType.type) }
+      : undefined;
+    const consumerOptions = {
+      queueName: queueConfig.queueName,
+      maxRetries: queueConfig.maxRetries,
+      retryDelay: queueConfig.retryDelay,
+      backoff: queueConfig.backoff,
+      deadLetterQueue,
+      messageSchema,
+    };
+    const dashboardOptions = {
+      maxBatchSize: queueConfig.maxBatchSize,
+      maxBatchTimeout: queueConfig.maxBatchTimeout,
+      maxRetries: queueConfig.maxRetries,
+      maxConcurrency: queueConfig.maxConcurrency,
+      deadLetterQueue: queueConfig.deadLetterQueue,
+      sampleMessages: queueConfig.messageSchema && getSampleMessages(queueConfig.messageSchema),
+    };
+
+    // HTTP pull consumers run outside Cloudflare, so the Worker itself is left alone
+    if (queueConfig.role === 'consumer' && queueConfig.consumerType === 'http_pull') {
+      const pullClientPath = path.join(projectDir, PULL_CLIENT_PATH);
+      await fs.ensureDir(path.dirname(pullClientPath));
+      await fs.writeFile(
+        pullClientPath,
+        generatePullClientCode({
+          queueName: queueConfig.queueName,
+          batchSize: queueConfig.maxBatchSize,
+          retryDelay: queueConfig.retryDelay,
+        }),
+        'utf-8'
+      );
+      logger.success(`Created HTTP pull client (${PULL_CLIENT_PATH})`);
+      return;
+    }
+
+    // Message types, validator, typed producer helper and dispatcher
+    if (queueConfig.messageSchema) {
+      await fs.writeFile(
+        path.join(entryDir, 'messages.ts'),
+        generateMessagesModuleCode(queueConfig.messageSchema),
+        'utf-8'
+      );
+      logger.success(`Created typed messages (messages.ts) from ${queueConfig.messageSchema.source}`);
+    }
+
+    // Existing project: add modules next to the entry file and patch it to use them
+    if (queueConfig.entryFilePath) {
+      const queueType = queueConfig.messageSchema
+        ? 'Queue<import("./messages").QueueMessage>'
+        : 'Queue';
+
+      if (queueConfig.action === 'add-dashboard') {
+        await writeModule(
+          path.join(entryDir, 'queue-demo.ts'),
+          generateQueueWorkerCode({
+            ...consumerOptions,
+            bindingName: queueConfig.bindingName!,
+            ackMode: queueConfig.ackMode,
+            mount: { basePath: DASHBOARD_PATH },
+          })
+        );
+        await writeModule(path.join(entryDir, 'event-store.ts'), generateEventStoreCode());
+        await writeModule(
+          path.join(entryDir, 'dashboard.html'),
+          generateDashboardHTML({ ...dashboardOptions, basePath: DASHBOARD_PATH })
+        );
+
+        await patchEnvBindings(entryFilePath, [
+          { name: queueConfig.bindingName!, type: queueType },
+          { name: 'EVENT_STORE', type: 'DurableObjectNamespace' },
+        ]);
+        await patchEntryExport(entryFilePath, ['EventStore'], './event-store');
+        await patchFetchRoute(entryFilePath, {
+          pathPrefix: DASHBOARD_PATH,
+          handlerName: 'handleQueueRequest',
+          importPath: './queue-demo',
+        });
+        await patchQueueHandler(entryFilePath, './queue-demo');
+        return;
+      }
+
+      // Minimal: producers get the binding, consumers a queue handler
+      if (queueConfig.role !== 'consumer') {
+        await patchEnvBindings(entryFilePath, [{ name: queueConfig.bindingName!, type: queueType }]);
+      }
+      if (queueConfig.role !== 'producer') {
+        await writeModule(
+          path.join(entryDir, 'queue-consumer.ts'),
+          generateQueueConsumerCode({ ...consumerOptions, mount: {} })
+        );
+        await patchQueueHandler(entryFilePath, './queue-consumer');
+      }
+      return;
+    }
+
+    // Split Workers get only their half of the queue, without the dashboard demo
+    if (queueConfig.role === 'producer' || queueConfig.role === 'consumer') {
+      const workerCode = queueConfig.role === 'producer'
+        ? generateQueueProducerCode({
+            queueName: queueConfig.queueName,
+            bindingName: queueConfig.bindingName!,
+            messageSchema,
+          })
+        : generateQueueConsumerCode(consumerOptions);
+      await fs.writeFile(entryFilePath, workerCode, 'utf-8');
+      logger.success(`Created queue ${queueConfig.role} Worker (index.ts)`);
+      return;
+    }
+
     // Generate index.ts with full demo worker
-    const entryFilePath = path.join(srcDir, 'index.ts');
     const workerCode = generateQueueWorkerCode({
-      queueName: queueConfig.queueName,
-      bindingName: queueConfig.bindingName,
+      ...consumerOptions,
+      bindingName: queueConfig.bindingName!,
+      workflow: queueConfig.workflow,
+      analytics: queueConfig.analytics,
+      rateLimit: queueConfig.rateLimit,
+      assets: queueConfig.assets,
+      ackMode: queueConfig.ackMode,
     });
     await fs.writeFile(entryFilePath, workerCode, 'utf-8');
 
@@ -68,40 +341,119 @@ export const QueuesPrimitive: Primitive = {
     const eventStoreCode = generateEventStoreCode();
     await fs.writeFile(eventStorePath, eventStoreCode, 'utf-8');
 
-    // Generate dashboard.html
-    const dashboardPath = path.join(srcDir, 'dashboard.html');
-    const dashboardHTML = generateDashboardHTML();
+    // Generate dashboard.html, or index.html in the assets directory
+    const dashboardPath = queueConfig.assets
+      ? path.join(projectDir, queueConfig.assets.directory, 'index.html')
+      : path.join(srcDir, 'dashboard.html');
+    const dashboardHTML = generateDashboardHTML(dashboardOptions);
+    await fs.ensureDir(path.dirname(dashboardPath));
     await fs.writeFile(dashboardPath, dashboardHTML, 'utf-8');
 
-    logger.success('Created queue demo files (index.ts, event-store.ts, dashboard.html)');
+    logger.success(
+      `Created queue demo files (index.ts, event-store.ts, ${path.relative(projectDir, dashboardPath)})`
+    );
   },
 
   async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
     const queueConfig = config as QueuesPrimitiveConfig;
 
-    logger.step(`Creating queue: ${queueConfig.queueName}...`);
-
-    try {
-      await execa('npx', ['wrangler', 'queues', 'create', queueConfig.queueName], {
-        cwd: projectDir,
-        stdio: 'inherit',
-      });
-      logger.success(`Queue "${queueConfig.queueName}" created`);
-    } catch (error) {
-      // Queue might already exist, which is okay
-      logger.warn(`Queue creation failed (it might already exist)`);
-      logger.info('Continuing with deployment...');
+    // Attaching to an existing queue must not re-create it
+    if (!queueConfig.existingQueue) {
+      await createQueue(projectDir, queueConfig.queueName);
+    }
+
+    // The consumer's dead_letter_queue must exist before deploy too
+    if (queueConfig.deadLetterQueue) {
+      await createQueue(projectDir, queueConfig.deadLetterQueue);
     }
   },
 
   getDeploymentInfo(config: PrimitiveConfig) {
+    const queueConfig = config as QueuesPrimitiveConfig;
+    const setupCommands = [
+      ...(queueConfig.existingQueue ? [] : [`npx wrangler queues create ${queueConfig.queueName}`]),
+      ...(queueConfig.deadLetterQueue
+        ? [`npx wrangler queues create ${queueConfig.deadLetterQueue}`]
+        : []),
+    ];
+    const handlerFile = queueConfig.action === 'add-dashboard'
+      ? 'queue-demo.ts'
+      : queueConfig.action === 'add-minimal'
+        ? 'queue-consumer.ts'
+        : 'index.ts';
+    const messageSteps = queueConfig.messageSchema
+      ? [
+          `Message types are in src/messages.ts; handle each type in messageHandlers in src/${handlerFile}`,
+          `Regenerate src/messages.ts if ${queueConfig.messageSchema.source} changes`,
+        ]
+      : [];
+    const dashboardUrl = `http://localhost:8787${queueConfig.action === 'add-dashboard' ? DASHBOARD_PATH : ''}`;
+
+    if (queueConfig.action === 'add-minimal' && queueConfig.consumerType !== 'http_pull') {
+      const sendStep = queueConfig.messageSchema
+        ? `Send typed messages with sendMessage(env.${queueConfig.bindingName}, { type: ... }) from "./messages"`
+        : `Send messages from your fetch handler with await env.${queueConfig.bindingName}.send(...)`;
+      return {
+        successMessage: '🎉 Queues added to your Worker!',
+        nextSteps: [
+          ...(queueConfig.role !== 'consumer' ? [sendStep] : []),
+          ...(queueConfig.role !== 'producer'
+            ? ['Process messages in src/queue-consumer.ts, which your queue handler calls']
+            : []),
+          ...messageSteps,
+        ],
+        setupCommands,
+      };
+    }
+
+    if (queueConfig.role === 'producer') {
+      return {
+        successMessage: '🎉 Your queue producer is live!',
+        nextSteps: [
+          queueConfig.messageSchema
+            ? `POST a JSON message such as ${JSON.stringify(getSampleMessages(queueConfig.messageSchema)[0])} to http://localhost:8787`
+            : `POST a body to http://localhost:8787 to send it to ${queueConfig.queueName}`,
+          'Messages are processed by the consumer Worker attached to the queue',
+        ],
+        setupCommands,
+      };
+    }
+
+    if (queueConfig.role === 'consumer' && queueConfig.consumerType === 'http_pull') {
+      return {
+        successMessage: '🎉 Your queue pull consumer is configured!',
+        nextSteps: [
+          `Get the queue ID with: npx wrangler queues info ${queueConfig.queueName}`,
+          'Create an API token with Queues Edit permission',
+          `Run the client: CF_ACCOUNT_ID=... CF_API_TOKEN=... QUEUE_ID=... npx tsx ${PULL_CLIENT_PATH}`,
+          'Pass --base-url to point the client at a local stand-in, or --once to pull a single batch',
+        ],
+        setupCommands,
+      };
+    }
+
+    if (queueConfig.role === 'consumer') {
+      return {
+        successMessage: '🎉 Your queue consumer is live!',
+        nextSteps: [
+          `Send messages to ${queueConfig.queueName} from your producer Worker`,
+          'Run `npx wrangler tail` to watch batches being processed',
+          ...messageSteps,
+        ],
+        setupCommands,
+      };
+    }
+
     return {
       successMessage: '🎉 Your queue worker is live!',
       nextSteps: [
-        'Open http://localhost:8787 in your browser to view the live dashboard',
+        `Open ${dashboardUrl} in your browser to view the live dashboard`,
         'Click "Enqueue Message" to send messages to the queue',
+        `Use "Burst messages" (or POST a JSON array to ${dashboardUrl}/batch) to send many at once with sendBatch`,
         'Watch the real-time visualization of queue → consumer → events',
+        ...messageSteps,
       ],
+      setupCommands,
     };
   },
 };
@@ -1,15 +1,82 @@
+import path from 'node:path';
+import prompts from 'prompts';
 import { coloredPrompts } from '../../lib/helpers.js';
+import { getConsumerSettingsQuestions } from '../../lib/prompts.js';
+import { validateMessageSchema } from './schema.js';
+
+// Which half of the queue this Worker owns; split architectures run the
+// producer and consumer in separate Workers
+export type QueueRole = 'both' | 'producer' | 'consumer';
+
+// Push consumers are invoked by Queues; http_pull consumers poll the REST API
+export type QueueConsumerType = 'worker' | 'http_pull';
+
+// Whether the consumer acks/retries each message or the whole batch at once
+export type QueueAckMode = 'message' | 'batch';
+
+export type QueueBackoff = 'exponential' | 'linear' | 'fixed';
 
 export interface NewQueueProjectChoices {
   projectName: string;
+  role: QueueRole;
   queueName: string;
-  bindingName: string;
+  bindingName?: string;
+  existingQueue?: boolean;
+  consumerType?: QueueConsumerType;
+  messageSchema?: string; // Path to a JSON Schema or TypeScript file of message types
+  ackMode?: QueueAckMode;
+  backoff?: QueueBackoff;
+  useDeadLetterQueue?: boolean;
+  deadLetterQueue?: string;
+  customizeConsumer?: boolean;
+  maxBatchSize?: number;
+  maxBatchTimeout?: number;
+  maxRetries?: number;
+  maxConcurrency?: number;
+  retryDelay?: number;
 }
 
 export interface ExistingQueueProjectChoices {
   action: 'add-minimal' | 'add-dashboard' | 'new-subfolder';
+  projectName?: string; // Only for new-subfolder
+  role: QueueRole;
   queueName: string;
-  bindingName: string;
+  bindingName?: string;
+  existingQueue?: boolean;
+  consumerType?: QueueConsumerType;
+  messageSchema?: string; // Path to a JSON Schema or TypeScript file of message types
+  ackMode?: QueueAckMode;
+  backoff?: QueueBackoff;
+  useDeadLetterQueue?: boolean;
+  deadLetterQueue?: string;
+  customizeConsumer?: boolean;
+  maxBatchSize?: number;
+  maxBatchTimeout?: number;
+  maxRetries?: number;
+  maxConcurrency?: number;
+  retryDelay?: number;
+}
+
+const validateDeadLetterQueueName = (value: string) =>
+  /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-queue-dlq)';
+
+// validate only sees its own answer, so a dead-letter queue named after the queue
+// it serves is caught here and asked for again; undefined means the prompt was cancelled
+async function promptDistinctDeadLetterQueue(queueName: string, deadLetterQueue?: string): Promise<string | undefined> {
+  if (deadLetterQueue !== queueName) {
+    return deadLetterQueue;
+  }
+
+  const response = await coloredPrompts({
+    type: 'text',
+    name: 'deadLetterQueue',
+    message: 'Dead-letter queue name? (must differ from the queue name)',
+    initial: `${queueName}-dlq`,
+    validate: (value: string) =>
+      value === queueName ? `Must differ from the queue name (${queueName})` : validateDeadLetterQueueName(value),
+  });
+
+  return response.deadLetterQueue;
 }
 
 export async function promptNewQueueProject(): Promise<NewQueueProjectChoices | null> {
@@ -24,6 +91,29 @@ export async function promptNewQueueProject(): Promise<NewQueueProjectChoices |
       validate: (value: string) =>
         /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-queue-worker)',
     },
+    {
+      type: 'select',
+      name: 'role',
+      message: 'What should this Worker do with the queue?',
+      choices: [
+        {
+          title: 'Produce and consume',
+          description: 'Full demo with interactive dashboard',
+          value: 'both',
+        },
+        {
+          title: 'Produce only',
+          description: 'Send messages; another Worker consumes them',
+          value: 'producer',
+        },
+        {
+          title: 'Consume only',
+          description: 'Process messages another Worker sends (a queue has one consumer)',
+          value: 'consumer',
+        },
+      ],
+      initial: 0,
+    },
     {
       type: 'text',
       name: 'queueName',
@@ -33,25 +123,123 @@ export async function promptNewQueueProject(): Promise<NewQueueProjectChoices |
         /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-queue)',
     },
     {
-      type: 'text',
+      type: (_prev: string, values: prompts.Answers<string>) => (values.role !== 'consumer' ? 'text' : null),
       name: 'bindingName',
       message: 'Binding name?',
       initial: 'DEMO_QUEUE',
       validate: (value: string) =>
         /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., DEMO_QUEUE)',
     },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.role !== 'both' ? 'confirm' : null),
+      name: 'existingQueue',
+      message: 'Does this queue already exist? (it will not be re-created)',
+      initial: true,
+    },
+    {
+      type: (_prev: boolean, values: prompts.Answers<string>) => (values.role === 'consumer' ? 'select' : null),
+      name: 'consumerType',
+      message: 'Where does the consumer run?',
+      choices: [
+        {
+          title: 'In this Worker (push)',
+          description: 'Queues invokes the queue() handler',
+          value: 'worker',
+        },
+        {
+          title: 'Outside Cloudflare (HTTP pull)',
+          description: 'A Node client pulls and acks messages over the REST API',
+          value: 'http_pull',
+        },
+      ],
+      initial: 0,
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) =>
+        values.consumerType !== 'http_pull' ? 'text' : null,
+      name: 'messageSchema',
+      message: 'Message schema for typed messages? (JSON Schema or .ts file, blank for plain text)',
+      initial: '',
+      validate: (value: string) => !value.trim() || validateMessageSchema(path.resolve(value.trim())),
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.role === 'both' ? 'select' : null),
+      name: 'ackMode',
+      message: 'How should the consumer acknowledge messages?',
+      choices: [
+        {
+          title: 'Per message',
+          description: 'message.ack() / message.retry() with backoff',
+          value: 'message',
+        },
+        {
+          title: 'Whole batch',
+          description: 'batch.ackAll() / batch.retryAll()',
+          value: 'batch',
+        },
+      ],
+      initial: 0,
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) =>
+        values.ackMode === 'message' || values.consumerType === 'worker' ? 'select' : null,
+      name: 'backoff',
+      message: 'Retry backoff?',
+      choices: [
+        {
+          title: 'Exponential with jitter',
+          value: 'exponential',
+        },
+        {
+          title: 'Linear',
+          value: 'linear',
+        },
+        {
+          title: 'Fixed',
+          value: 'fixed',
+        },
+      ],
+      initial: 0,
+    },
+    {
+      type: (_prev: boolean, values: prompts.Answers<string>) => (values.role !== 'producer' ? 'confirm' : null),
+      name: 'useDeadLetterQueue',
+      message: 'Send messages that exhaust their retries to a dead-letter queue?',
+      initial: true,
+    },
+    {
+      type: (_prev: boolean, values: prompts.Answers<string>) => (values.useDeadLetterQueue ? 'text' : null),
+      name: 'deadLetterQueue',
+      message: 'Dead-letter queue name?',
+      initial: (_prev: boolean, values: prompts.Answers<string>) => `${values.queueName}-dlq`,
+      validate: validateDeadLetterQueueName,
+    },
+    ...getConsumerSettingsQuestions((values) => values.role !== 'producer'),
   ]);
 
   if (!response.projectName) {
     return null;
   }
 
-  return response as NewQueueProjectChoices;
+  const deadLetterQueue = await promptDistinctDeadLetterQueue(response.queueName, response.deadLetterQueue);
+  if (response.deadLetterQueue && !deadLetterQueue) {
+    return null;
+  }
+
+  return {
+    ...response,
+    deadLetterQueue,
+    messageSchema: response.messageSchema?.trim() || undefined,
+    maxConcurrency: response.maxConcurrency || undefined, // 0 leaves it to autoscaling
+  } as NewQueueProjectChoices;
 }
 
 export async function promptExistingQueueProject(): Promise<ExistingQueueProjectChoices | null> {
   console.log('\nDetected a Cloudflare Worker project in this directory.\n');
 
+  // The dashboard needs both halves of the queue, so it skips the role question
+  const getRole = (values: prompts.Answers<string>): QueueRole => values.role ?? 'both';
+
   const response = await coloredPrompts([
     {
       type: 'select',
@@ -60,12 +248,13 @@ export async function promptExistingQueueProject(): Promise<ExistingQueueProject
       choices: [
         {
           title: 'Add Queues (minimal setup)',
+          description: 'Queue binding and a queue handler in your entry file',
           value: 'add-minimal',
         },
         {
-          title: 'Add Queues with full dashboard (Phase 2)',
+          title: 'Add Queues with full dashboard',
+          description: 'Dashboard, event store and routes under /queues',
           value: 'add-dashboard',
-          disabled: true,
         },
         {
           title: 'Create a new queue project in a subfolder',
@@ -74,6 +263,39 @@ export async function promptExistingQueueProject(): Promise<ExistingQueueProject
       ],
       initial: 0,
     },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) =>
+        values.action === 'new-subfolder' ? 'text' : null,
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-queue-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-queue-worker)',
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) =>
+        values.action !== 'add-dashboard' ? 'select' : null,
+      name: 'role',
+      message: 'What should this Worker do with the queue?',
+      choices: [
+        {
+          title: 'Produce and consume',
+          description: 'Send and process messages in this Worker',
+          value: 'both',
+        },
+        {
+          title: 'Produce only',
+          description: 'Send messages; another Worker consumes them',
+          value: 'producer',
+        },
+        {
+          title: 'Consume only',
+          description: 'Process messages another Worker sends (a queue has one consumer)',
+          value: 'consumer',
+        },
+      ],
+      initial: 0,
+    },
     {
       type: 'text',
       name: 'queueName',
@@ -83,18 +305,120 @@ export async function promptExistingQueueProject(): Promise<ExistingQueueProject
         /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-queue)',
     },
     {
-      type: 'text',
+      type: (_prev: string, values: prompts.Answers<string>) => (getRole(values) !== 'consumer' ? 'text' : null),
       name: 'bindingName',
       message: 'Binding name?',
       initial: 'DEMO_QUEUE',
       validate: (value: string) =>
         /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., DEMO_QUEUE)',
     },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (getRole(values) !== 'both' ? 'confirm' : null),
+      name: 'existingQueue',
+      message: 'Does this queue already exist? (it will not be re-created)',
+      initial: true,
+    },
+    {
+      type: (_prev: boolean, values: prompts.Answers<string>) => (getRole(values) === 'consumer' ? 'select' : null),
+      name: 'consumerType',
+      message: 'Where does the consumer run?',
+      choices: [
+        {
+          title: 'In this Worker (push)',
+          description: 'Queues invokes the queue() handler',
+          value: 'worker',
+        },
+        {
+          title: 'Outside Cloudflare (HTTP pull)',
+          description: 'A Node client pulls and acks messages over the REST API',
+          value: 'http_pull',
+        },
+      ],
+      initial: 0,
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) =>
+        values.consumerType !== 'http_pull' ? 'text' : null,
+      name: 'messageSchema',
+      message: 'Message schema for typed messages? (JSON Schema or .ts file, blank for plain text)',
+      initial: '',
+      validate: (value: string) => !value.trim() || validateMessageSchema(path.resolve(value.trim())),
+    },
+    {
+      // The minimal setup's consumer always acks and retries per message
+      type: (_prev: string, values: prompts.Answers<string>) =>
+        getRole(values) === 'both' && values.action !== 'add-minimal' ? 'select' : null,
+      name: 'ackMode',
+      message: 'How should the consumer acknowledge messages?',
+      choices: [
+        {
+          title: 'Per message',
+          description: 'message.ack() / message.retry() with backoff',
+          value: 'message',
+        },
+        {
+          title: 'Whole batch',
+          description: 'batch.ackAll() / batch.retryAll()',
+          value: 'batch',
+        },
+      ],
+      initial: 0,
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) =>
+        values.ackMode === 'message' ||
+        values.consumerType === 'worker' ||
+        (values.action === 'add-minimal' && getRole(values) === 'both')
+          ? 'select'
+          : null,
+      name: 'backoff',
+      message: 'Retry backoff?',
+      choices: [
+        {
+          title: 'Exponential with jitter',
+          value: 'exponential',
+        },
+        {
+          title: 'Linear',
+          value: 'linear',
+        },
+        {
+          title: 'Fixed',
+          value: 'fixed',
+        },
+      ],
+      initial: 0,
+    },
+    {
+      type: (_prev: boolean, values: prompts.Answers<string>) => (getRole(values) !== 'producer' ? 'confirm' : null),
+      name: 'useDeadLetterQueue',
+      message: 'Send messages that exhaust their retries to a dead-letter queue?',
+      initial: true,
+    },
+    {
+      type: (_prev: boolean, values: prompts.Answers<string>) => (values.useDeadLetterQueue ? 'text' : null),
+      name: 'deadLetterQueue',
+      message: 'Dead-letter queue name?',
+      initial: (_prev: boolean, values: prompts.Answers<string>) => `${values.queueName}-dlq`,
+      validate: validateDeadLetterQueueName,
+    },
+    ...getConsumerSettingsQuestions((values) => getRole(values) !== 'producer'),
   ]);
 
   if (!response.action) {
     return null;
   }
 
-  return response as ExistingQueueProjectChoices;
+  const deadLetterQueue = await promptDistinctDeadLetterQueue(response.queueName, response.deadLetterQueue);
+  if (response.deadLetterQueue && !deadLetterQueue) {
+    return null;
+  }
+
+  return {
+    ...response,
+    deadLetterQueue,
+    role: response.role ?? 'both',
+    messageSchema: response.messageSchema?.trim() || undefined,
+    maxConcurrency: response.maxConcurrency || undefined, // 0 leaves it to autoscaling
+  } as ExistingQueueProjectChoices;
 }
@@ -0,0 +1,373 @@
+// Message schema loading for typed queue messages.
+// Accepts a JSON Schema file (one object schema, or a oneOf/anyOf of them) or a
+// TypeScript file of interfaces. Every message type is discriminated by a `type`
+// property with a single literal value, e.g. { type: "order.created", ... }.
+
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Node, Project, Type } from 'ts-morph';
+
+// Runtime check the generated validator applies to a field
+export type FieldCheck = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'unknown';
+
+export interface MessageField {
+  name: string;
+  check: FieldCheck;
+  optional: boolean;
+  values?: Array<string | number | boolean>; // Literal or enum values the field must be one of
+}
+
+export interface MessageType {
+  type: string; // Discriminator value
+  interfaceName: string;
+  fields: MessageField[]; // Excludes the `type` discriminator itself
+}
+
+export interface MessageSchema {
+  source: string; // File the schema was loaded from, for generated comments
+  declarations: string; // TypeScript declarations for every message type
+  types: MessageType[];
+}
+
+/**
+ * Load a message schema from a .json (JSON Schema) or .ts file, throwing an
+ * Error with a readable message if it can't be turned into message types
+ */
+export function loadMessageSchema(filePath: string): MessageSchema {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  if (filePath.endsWith('.json')) {
+    return loadJsonSchema(filePath);
+  }
+  if (filePath.endsWith('.ts')) {
+    return loadTypeScriptSchema(filePath);
+  }
+
+  throw new Error('Must be a JSON Schema (.json) or TypeScript (.ts) file');
+}
+
+export function validateMessageSchema(filePath: string): true | string {
+  try {
+    loadMessageSchema(filePath);
+    return true;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid message schema';
+  }
+}
+
+// A valid example of each message type, used by the dashboard's enqueue button
+export function getSampleMessages(schema: MessageSchema): Record<string, unknown>[] {
+  return schema.types.map((messageType) => {
+    const sample: Record<string, unknown> = { type: messageType.type };
+
+    for (const field of messageType.fields) {
+      if (field.optional) continue;
+      sample[field.name] = field.values ? field.values[0] : SAMPLE_VALUES[field.check];
+    }
+
+    return sample;
+  });
+}
+
+const SAMPLE_VALUES: Record<FieldCheck, unknown> = {
+  string: 'example',
+  number: 1,
+  boolean: true,
+  array: [],
+  object: {},
+  unknown: null,
+};
+
+// --- JSON Schema ---
+
+type JsonObject = Record<string, unknown>;
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isLiteralValue(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function loadJsonSchema(filePath: string): MessageSchema {
+  const root = readJsonObject(filePath);
+  const union = root.oneOf ?? root.anyOf;
+
+  const variants = Array.isArray(union)
+    ? union.map((variant) => resolveRef(root, variant))
+    : [{ schema: root, name: getTitle(root) }];
+
+  const types = variants.map(({ schema, name }) => {
+    const properties = isJsonObject(schema.properties) ? schema.properties : {};
+    const type = getConstValue(properties.type);
+    if (schema.type !== 'object' || typeof type !== 'string') {
+      throw new Error('Each message schema must be an object with a "type" property that has a const string value');
+    }
+
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    const fields = Object.entries(properties)
+      .filter(([fieldName]) => fieldName !== 'type')
+      .map(([fieldName, property]) => ({
+        name: fieldName,
+        check: getJsonCheck(property),
+        optional: !required.includes(fieldName),
+        values: getJsonValues(property),
+      }));
+
+    return { type, interfaceName: getInterfaceName(getTitle(schema) ?? name, type), fields, properties };
+  });
+
+  assertValidTypes(types);
+
+  const declarations = types
+    .map(({ type, interfaceName, fields, properties }) => {
+      const lines = fields.map((field) => {
+        const optional = field.optional ? '?' : '';
+        return `  ${toPropertyName(field.name)}${optional}: ${getJsonTsType(properties[field.name])};`;
+      });
+      return `export interface ${interfaceName} {\n  type: ${JSON.stringify(type)};\n${lines.map((line) => `${line}\n`).join('')}}`;
+    })
+    .join('\n\n');
+
+  return {
+    source: path.basename(filePath),
+    declarations,
+    types: types.map(({ type, interfaceName, fields }) => ({ type, interfaceName, fields })),
+  };
+}
+
+function readJsonObject(filePath: string): JsonObject {
+  let root: unknown;
+  try {
+    root = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${path.basename(filePath)}`);
+  }
+
+  if (!isJsonObject(root)) {
+    throw new Error(`${path.basename(filePath)} must contain a JSON Schema object`);
+  }
+  return root;
+}
+
+function getTitle(schema: JsonObject): string | undefined {
+  return typeof schema.title === 'string' ? schema.title : undefined;
+}
+
+// Resolves "#/definitions/Name" and "#/$defs/Name" references, keeping the name
+function resolveRef(root: JsonObject, schema: unknown): { schema: JsonObject; name?: string } {
+  if (!isJsonObject(schema)) {
+    throw new Error('Each entry in oneOf/anyOf must be a JSON Schema object');
+  }
+  if (typeof schema.$ref !== 'string') {
+    return { schema, name: getTitle(schema) };
+  }
+
+  const match = schema.$ref.match(/^#\/(definitions|\$defs)\/(.+)$/);
+  const definitions = match ? root[match[1]] : undefined;
+  const resolved = match && isJsonObject(definitions) ? definitions[match[2]] : undefined;
+  if (!match || !isJsonObject(resolved)) {
+    throw new Error(`Unsupported $ref "${schema.$ref}" (only #/definitions and #/$defs are supported)`);
+  }
+
+  return { schema: resolved, name: match[2] };
+}
+
+function getConstValue(property: unknown): unknown {
+  if (!isJsonObject(property)) return undefined;
+  if (property.const !== undefined) return property.const;
+  if (Array.isArray(property.enum) && property.enum.length === 1) return property.enum[0];
+  return undefined;
+}
+
+function getJsonValues(property: unknown): MessageField['values'] {
+  if (!isJsonObject(property)) return undefined;
+  if (isLiteralValue(property.const)) return [property.const];
+  if (Array.isArray(property.enum) && property.enum.every(isLiteralValue)) return property.enum;
+  return undefined;
+}
+
+function getJsonCheck(property: unknown): FieldCheck {
+  switch (isJsonObject(property) ? property.type : undefined) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return 'array';
+    case 'object':
+      return 'object';
+    default:
+      return 'unknown';
+  }
+}
+
+function getJsonTsType(property: unknown): string {
+  const values = getJsonValues(property);
+  if (values) {
+    return values.map((value) => JSON.stringify(value)).join(' | ');
+  }
+  if (!isJsonObject(property)) {
+    return 'unknown';
+  }
+
+  switch (property.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return property.items !== undefined ? `Array<${getJsonTsType(property.items)}>` : 'unknown[]';
+    case 'object':
+      return 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+// --- TypeScript interfaces ---
+
+function loadTypeScriptSchema(filePath: string): MessageSchema {
+  const project = new Project({ skipAddingFilesFromTsConfig: true });
+  const sourceFile = project.addSourceFileAtPath(filePath);
+
+  // Message types are the interfaces with a string literal `type` property
+  const types: MessageType[] = [];
+  for (const declaration of sourceFile.getInterfaces()) {
+    const typeProperty = declaration.getProperty('type');
+    const typeValue = typeProperty?.getType().getLiteralValue();
+    if (typeof typeValue !== 'string') continue;
+
+    types.push({
+      type: typeValue,
+      interfaceName: declaration.getName(),
+      fields: declaration
+        .getProperties()
+        .filter((property) => property.getName() !== 'type')
+        .map((property) => ({
+          name: property.getName(),
+          check: getTypeCheck(property.getType()),
+          optional: property.hasQuestionToken(),
+          values: getLiteralValues(property.getType()),
+        })),
+    });
+  }
+
+  if (types.length === 0) {
+    throw new Error('No interfaces with a string literal "type" property found (e.g., type: "order.created")');
+  }
+  assertValidTypes(types);
+
+  // Copy every type declaration so message interfaces can reference their helpers
+  const declarations = sourceFile
+    .getStatements()
+    .filter((statement) =>
+      Node.isInterfaceDeclaration(statement) ||
+      Node.isTypeAliasDeclaration(statement) ||
+      Node.isEnumDeclaration(statement)
+    )
+    .map((statement) => {
+      const text = statement.getText();
+      return text.startsWith('export ') ? text : `export ${text}`;
+    })
+    .join('\n\n');
+
+  return { source: path.basename(filePath), declarations, types };
+}
+
+function getTypeCheck(type: Type): FieldCheck {
+  // Optional properties are typed T | undefined
+  const nonUndefined = type.isUnion()
+    ? type.getUnionTypes().filter((member) => !member.isUndefined())
+    : [type];
+  const checks = new Set(nonUndefined.map(getSingleTypeCheck));
+
+  return checks.size === 1 ? [...checks][0] : 'unknown';
+}
+
+function getSingleTypeCheck(type: Type): FieldCheck {
+  if (type.isString() || type.isStringLiteral() || type.isTemplateLiteral()) return 'string';
+  if (type.isNumber() || type.isNumberLiteral()) return 'number';
+  if (type.isBoolean() || type.isBooleanLiteral()) return 'boolean';
+  if (type.isArray() || type.isTuple()) return 'array';
+  if (type.isObject()) return 'object';
+  return 'unknown';
+}
+
+function getLiteralValues(type: Type): MessageField['values'] {
+  const members = (type.isUnion() ? type.getUnionTypes() : [type]).filter((member) => !member.isUndefined());
+
+  // boolean is the union true | false, which is not a restriction
+  if (members.length === 0 || type.isBoolean()) return undefined;
+
+  const values: Array<string | number | boolean> = [];
+  for (const member of members) {
+    if (member.isStringLiteral() || member.isNumberLiteral()) {
+      values.push(member.getLiteralValue() as string | number);
+    } else if (member.isBooleanLiteral()) {
+      values.push(member.getText() === 'true');
+    } else {
+      return undefined;
+    }
+  }
+
+  return values;
+}
+
+// --- Helpers ---
+
+// Names the generated messages.ts declares alongside the schema's own types
+const RESERVED_NAMES = ['Message', 'MessageType', 'QueueMessage', 'MessageHandlers', 'ValidationResult'];
+
+function assertValidTypes(types: Array<{ type: string; interfaceName: string }>): void {
+  const seen = new Set<string>();
+  for (const { type, interfaceName } of types) {
+    if (seen.has(type)) {
+      throw new Error(`Message type "${type}" is defined more than once`);
+    }
+    if (RESERVED_NAMES.includes(interfaceName)) {
+      throw new Error(`"${interfaceName}" is used by the generated code; rename the "${type}" message type`);
+    }
+    seen.add(type);
+  }
+}
+
+// JSON Schema titles and definition names are free text, so anything that isn't
+// already an identifier is PascalCased: "Order created" → OrderCreated
+function getInterfaceName(name: string | undefined, type: string): string {
+  if (name && isIdentifier(name)) return name;
+
+  const pascal = name ? toPascalCase(name) : '';
+  return pascal || toInterfaceName(type);
+}
+
+// order.created → OrderCreatedMessage
+function toInterfaceName(type: string): string {
+  return `${toPascalCase(type) || '_'}Message`;
+}
+
+function toPascalCase(text: string): string {
+  const pascal = text
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+}
+
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+}
+
+function toPropertyName(name: string): string {
+  return isIdentifier(name) ? name : JSON.stringify(name);
+}
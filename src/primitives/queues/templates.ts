@@ -1,33 +1,613 @@
 // Queue template interfaces and generators
 
+import {
+  WORKFLOW_ROUTE,
+  getWorkflowModuleName,
+  getWorkflowHandlerName,
+  getWorkflowStarterName,
+} from '../workflows/templates.js';
+import type { QueueAckMode, QueueBackoff } from './prompts.js';
+import type { MessageSchema } from './schema.js';
+
 export interface QueueTemplateOptions {
   queueName: string;
   bindingName: string;
+  // Start an instance of this workflow for every consumed message
+  workflow?: {
+    className: string;
+    bindingName: string;
+  };
+  // Record per-batch metrics to this Analytics Engine dataset binding
+  analytics?: {
+    bindingName: string;
+  };
+  // Rate limit the producer POST route with this Rate Limiting binding
+  rateLimit?: {
+    bindingName: string;
+  };
+  // Serve the dashboard from this static assets binding instead of a Text module
+  assets?: {
+    bindingName: string;
+  };
+  // Consumer settings written to the wrangler config
+  maxRetries?: number;
+  retryDelay?: number;
+  // Ack/retry each message with this backoff instead of the whole batch
+  ackMode?: QueueAckMode;
+  backoff?: QueueBackoff;
+  // Also consume this dead-letter queue and log what lands in it
+  deadLetterQueue?: {
+    queueName: string;
+  };
+  // Validate and dispatch typed messages from src/messages.ts (see generateMessagesModuleCode)
+  messageSchema?: {
+    types: string[];
+  };
+  // Merged into an existing Worker: export handlers for its entry file to call
+  // instead of a default export, with routes served under basePath
+  mount?: {
+    basePath?: string;
+  };
 }
 
-export function generateQueueWorkerCode(options: QueueTemplateOptions): string {
-  return `// Cloudflare Workers Queue - Producer and Consumer
-// This worker acts as both producer (fetch handler) and consumer (queue handler)
-// Cloudflare handles scaling and separation at runtime
+export interface DashboardOptions {
+  // Consumer settings written to the wrangler config, shown in the producer panel
+  maxBatchSize?: number;
+  maxBatchTimeout?: number;
+  maxRetries?: number;
+  maxConcurrency?: number;
+  // Show a lane for messages moved to this dead-letter queue
+  deadLetterQueue?: string;
+  // Enqueue these (valid) bodies in rotation instead of free text
+  sampleMessages?: unknown[];
+  // Path the Worker serves the dashboard and its routes under, e.g. '/queues'
+  basePath?: string;
+}
+
+// Backoff helper for message.retry({ delaySeconds }); retry_delay (when set) is the base delay
+function generateBackoffCode(backoff: QueueBackoff, retryDelay: number): string {
+  return `
+type BackoffStrategy = "fixed" | "linear" | "exponential";
+
+const BACKOFF: BackoffStrategy = "${backoff}";
+const BACKOFF_BASE_SECONDS = ${retryDelay || 2};
+const BACKOFF_MAX_SECONDS = 300;
+
+// Delay before redelivering a message that failed on its Nth attempt
+function getRetryDelaySeconds(attempts: number, strategy: BackoffStrategy = BACKOFF): number {
+  switch (strategy) {
+    case "fixed":
+      return BACKOFF_BASE_SECONDS;
+    case "linear":
+      return Math.min(BACKOFF_BASE_SECONDS * attempts, BACKOFF_MAX_SECONDS);
+    case "exponential": {
+      // Full jitter, so messages that failed together don't all come back together
+      const ceiling = Math.min(BACKOFF_BASE_SECONDS * 2 ** (attempts - 1), BACKOFF_MAX_SECONDS);
+      return Math.ceil(Math.random() * ceiling);
+    }
+  }
+}
+`;
+}
 
-import { EventStore } from "./event-store";
-import dashboardHTML from "./dashboard.html";
+// One stub handler per message type; MessageHandlers makes the compiler flag
+// any type that is added to the schema but left unhandled
+function generateMessageHandlersCode(types: string[]): string {
+  const handlers = types
+    .map(
+      (type) => `  ${JSON.stringify(type)}: async (body, message) => {
+    console.log(\`    ↳ ${type} \${message.id}\`, body);
+  },`
+    )
+    .join('\n');
+
+  return `
+// Process each message type here
+const messageHandlers: MessageHandlers = {
+${handlers}
+};
+`;
+}
 
-interface Env {
-  ${options.bindingName}: Queue;
-  EVENT_STORE: DurableObjectNamespace;
+// src/messages.ts: message types, a runtime validator, a typed producer helper
+// and a dispatcher that routes each message to the handler for its type
+export function generateMessagesModuleCode(schema: MessageSchema): string {
+  const typeNames = schema.types.map((messageType) => messageType.interfaceName);
+  const rules = schema.types
+    .map((messageType) => {
+      const fields = messageType.fields
+        .map((field) => {
+          const key = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(field.name) ? field.name : JSON.stringify(field.name);
+          const values = field.values
+            ? `, values: [${field.values.map((value) => JSON.stringify(value)).join(', ')}]`
+            : '';
+          return `    ${key}: { check: "${field.check}", optional: ${field.optional}${values} },`;
+        })
+        .join('\n');
+      return `  ${JSON.stringify(messageType.type)}: {\n${fields ? `${fields}\n` : ''}  },`;
+    })
+    .join('\n');
+  const cases = schema.types
+    .map(
+      (messageType) => `    case ${JSON.stringify(messageType.type)}:
+      return handlers[${JSON.stringify(messageType.type)}](body, message);`
+    )
+    .join('\n');
+
+  return `// Typed queue messages, generated from ${schema.source}
+// Re-run the generator after changing the schema; edits here are overwritten
+
+${schema.declarations}
+
+export type Message = ${typeNames.join(' | ')};
+export type MessageType = Message["type"];
+
+// What is actually sent on the queue: the typed body plus delivery metadata
+export interface QueueMessage<T extends Message = Message> {
+  id: string;
+  body: T;
+  timestamp: number;
+}
+
+type FieldCheck = "string" | "number" | "boolean" | "array" | "object" | "unknown";
+
+interface FieldRule {
+  check: FieldCheck;
+  optional: boolean;
+  values?: ReadonlyArray<string | number | boolean>;
+}
+
+const MESSAGE_RULES: Record<MessageType, Record<string, FieldRule>> = {
+${rules}
+};
+
+export type ValidationResult =
+  | { ok: true; message: Message }
+  | { ok: false; error: string };
+
+function matchesCheck(value: unknown, check: FieldCheck): boolean {
+  switch (check) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "unknown":
+      return true;
+  }
 }
 
-export { EventStore };
+// Runtime check that a value is one of the message types above
+export function validateMessage(value: unknown): ValidationResult {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, error: "Message must be a JSON object" };
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.type !== "string" || !Object.prototype.hasOwnProperty.call(MESSAGE_RULES, record.type)) {
+    return {
+      ok: false,
+      error: \`"type" must be one of: \${Object.keys(MESSAGE_RULES).join(", ")}\`,
+    };
+  }
+
+  const rules = MESSAGE_RULES[record.type as MessageType];
+  for (const [name, rule] of Object.entries(rules)) {
+    const field = record[name];
+
+    if (field === undefined) {
+      if (rule.optional) continue;
+      return { ok: false, error: \`\${record.type}: "\${name}" is required\` };
+    }
+    if (!matchesCheck(field, rule.check)) {
+      return { ok: false, error: \`\${record.type}: "\${name}" must be a \${rule.check}\` };
+    }
+    if (rule.values && !rule.values.includes(field as string | number | boolean)) {
+      return {
+        ok: false,
+        error: \`\${record.type}: "\${name}" must be one of: \${rule.values.map((v) => JSON.stringify(v)).join(", ")}\`,
+      };
+    }
+  }
+
+  return { ok: true, message: record as unknown as Message };
+}
+
+// Parse and validate a JSON request body
+export function parseMessage(text: string): ValidationResult {
+  try {
+    return validateMessage(JSON.parse(text));
+  } catch {
+    return { ok: false, error: "Body must be valid JSON" };
+  }
+}
+
+// Typed producer helper: validates the body, wraps it and sends it
+export async function sendMessage<T extends Message>(
+  queue: Queue<QueueMessage>,
+  body: T,
+  options: { id?: string; delaySeconds?: number } = {}
+): Promise<QueueMessage<T>> {
+  const result = validateMessage(body);
+  if (!result.ok) {
+    throw new Error(\`Invalid message: \${result.error}\`);
+  }
 
+  const message: QueueMessage<T> = {
+    id: options.id ?? crypto.randomUUID().slice(0, 8),
+    body,
+    timestamp: Date.now(),
+  };
+  await queue.send(message, { delaySeconds: options.delaySeconds });
+
+  return message;
+}
+
+export type MessageHandlers = {
+  [K in MessageType]: (
+    body: Extract<Message, { type: K }>,
+    message: QueueMessage
+  ) => Promise<void> | void;
+};
+
+// Route a consumed message to the handler for its type
+export async function dispatchMessage(
+  message: QueueMessage,
+  handlers: MessageHandlers
+): Promise<void> {
+  const body = message.body;
+
+  switch (body.type) {
+${cases}
+    default: {
+      // Unreachable while every type has a case; a message sent by an older
+      // or newer producer still fails loudly instead of being acked unhandled
+      const unhandled: never = body;
+      throw new Error(\`No handler for message type "\${(unhandled as Message).type}"\`);
+    }
+  }
+}
+`;
+}
+
+export function generateQueueWorkerCode(options: QueueTemplateOptions): string {
+  const {
+    workflow,
+    analytics,
+    rateLimit,
+    assets,
+    deadLetterQueue,
+    maxRetries = 3,
+    retryDelay = 0,
+    ackMode = 'batch',
+    backoff = 'exponential',
+    messageSchema,
+    mount,
+  } = options;
+  const workflowModule = workflow && getWorkflowModuleName(workflow.className);
+  // Typed bodies are objects, so logs and the dashboard show their type instead
+  const bodyLabel = messageSchema ? 'msg.body.type' : 'msg.body';
+  const messagesImport = messageSchema
+    ? `\nimport { dispatchMessage, parseMessage, sendMessage, validateMessage, type Message, type MessageHandlers, type QueueMessage } from "./messages";`
+    : '';
+  const queueMessageInterface = messageSchema
+    ? generateMessageHandlersCode(messageSchema.types)
+    : `
 interface QueueMessage {
   id: string;
   body: string;
   timestamp: number;
 }
+`;
+  const dispatchCall = messageSchema
+    ? `
+
+        await dispatchMessage(msg, messageHandlers);`
+    : '';
+
+  const workflowImport = workflow
+    ? `\nimport { ${workflow.className}, ${getWorkflowHandlerName(workflow.className)}, ${getWorkflowStarterName(workflow.className)}, type ${workflow.className}Params } from "./${workflowModule}";`
+    : '';
+  const workflowBinding = workflow
+    ? `\n  ${workflow.bindingName}: Workflow<${workflow.className}Params>;`
+    : '';
+  const analyticsImport = analytics
+    ? `\nimport { handleAnalytics, recordBatchMetrics } from "./analytics";`
+    : '';
+  const analyticsBinding = analytics ? `\n  ${analytics.bindingName}: AnalyticsEngineDataset;` : '';
+  const analyticsRecord = analytics
+    ? `
+
+    // Batch size, attempts and queue latency to Analytics Engine
+    recordBatchMetrics(env.${analytics.bindingName}, batch);`
+    : '';
+  const analyticsRoute = analytics
+    ? `
+    // /analytics - Query recorded batch metrics
+    if (url.pathname.startsWith("/analytics")) {
+      return handleAnalytics(request, env);
+    }
+`
+    : '';
+  const rateLimitImport = rateLimit ? `\nimport { checkRateLimit } from "./rate-limit";` : '';
+  const rateLimitBinding = rateLimit ? `\n  ${rateLimit.bindingName}: RateLimit;` : '';
+  const rateLimitCheck = rateLimit
+    ? `
+
+    // Enqueues are limited per client IP; over the limit gets 429 + Retry-After
+    const limited = await checkRateLimit(request, env.${rateLimit.bindingName});
+    if (limited) {
+      return limited;
+    }`
+    : '';
+  const dashboardImport = assets ? '' : `\nimport dashboardHTML from "./dashboard.html";`;
+  const assetsBinding = assets ? `\n  ${assets.bindingName}: Fetcher;` : '';
+  const dashboardRoute = assets
+    ? ''
+    : `
+    // GET / - Serve dashboard
+    if (request.method === "GET" && url.pathname === "/") {
+      return new Response(dashboardHTML, {
+        headers: { "Content-Type": "text/html" },
+      });
+    }
+`;
+  const notPostResponse = assets
+    ? `// The dashboard and other static files are served by ${assets.bindingName}
+      return env.${assets.bindingName}.fetch(request);`
+    : `return new Response("Method not allowed", { status: 405 });`;
+  const deadLetterConsumer = deadLetterQueue
+    ? `
+
+    // Messages that exhausted max_retries on ${options.queueName} are moved to
+    // ${deadLetterQueue.queueName}. Log them so they show up on the dashboard, then ack;
+    // a production consumer would alert, store or replay them instead
+    if (batch.queue === "${deadLetterQueue.queueName}") {
+      for (const message of batch.messages) {
+        const msg = message.body as QueueMessage;
+        await logEvent(store, "dead_lettered", "dead-lettered", {
+          messageId: msg.id,
+          body: ${bodyLabel},
+          queue: batch.queue,
+        });
+      }
+      batch.ackAll();
+      return;
+    }`
+    : '';
+  const workflowExport = workflow ? `\nexport { ${workflow.className} };` : '';
+  const workflowRoute = workflow
+    ? `
+    // ${WORKFLOW_ROUTE} - Start and poll ${workflow.className} instances
+    if (url.pathname.startsWith("${WORKFLOW_ROUTE}")) {
+      return ${getWorkflowHandlerName(workflow.className)}(request, env);
+    }
+`
+    : '';
+  const workflowStart = workflow
+    ? `
+
+        // Hand the message off to a durable workflow, keyed by message id so
+        // a retried batch doesn't start duplicate instances
+        const instance = await ${getWorkflowStarterName(workflow.className)}(env, msg.id, {
+          input: ${messageSchema ? 'JSON.stringify(msg.body)' : 'msg.body'},
+          requestedAt: msg.timestamp,
+        });
+        console.log(\`    ↳ ${workflow.className} instance \${instance.id}\`);`
+    : '';
+
+  const consumerBody = ackMode === 'message'
+    ? `    // Log that processing is starting
+    await logEvent(store, "batch_processing", "processing", {
+      batchId,
+      messageCount: batch.messages.length,
+    });
+
+    // Simulate processing time
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    let acked = 0;
+    let retried = 0;
+
+    // Ack or retry each message on its own, so one bad message doesn't
+    // redeliver the rest of the batch
+    for (const message of batch.messages) {
+      const msg = message.body as QueueMessage;
+
+      try {
+        // 20% failure rate per message to simulate processing errors
+        if (Math.random() < 0.2) {
+          throw new Error("Simulated message processing failure");
+        }
+
+        const attemptInfo = message.attempts > 1 ? \` (attempt \${message.attempts})\` : '';
+        console.log(\`  → Processing: \${msg.id}\${attemptInfo} - "\${${bodyLabel}}"\`);${dispatchCall}${workflowStart}
+
+        message.ack();
+        acked++;
+        await logEvent(store, "message_acked", "acked", {
+          batchId,
+          messageId: msg.id,
+          attempts: message.attempts,
+        });
+      } catch (error) {
+        const delaySeconds = getRetryDelaySeconds(message.attempts);
+        message.retry({ delaySeconds });
+        retried++;
+        await logEvent(store, "message_retried", "retry", {
+          batchId,
+          messageId: msg.id,
+          attempts: message.attempts,
+          delaySeconds,
+          // max_retries = ${maxRetries}, so a message is delivered at most ${maxRetries + 1} times
+          willRetry: message.attempts <= ${maxRetries},
+        });
+      }
+    }
+
+    await logEvent(store, "batch_complete", "acked", {
+      batchId,
+      wasRetry: isRetry,
+      attempts: maxAttempts,
+      acked,
+      retried,
+    });
+`
+    : `    try {
+      // Log that processing is starting
+      await logEvent(store, "batch_processing", "processing", {
+        batchId,
+        messageCount: batch.messages.length,
+      });
+
+      // 20% failure rate to simulate processing errors
+      const shouldFail = Math.random() < 0.2
+
+      if (shouldFail) {
+        throw new Error("Simulated batch processing failure");
+      }
+
+      // Loop through messages and log them
+      for (const message of batch.messages) {
+        const msg = message.body as QueueMessage;
+        const attemptInfo = message.attempts > 1 ? \` (attempt \${message.attempts})\` : '';
+        console.log(\`  → Processing: \${msg.id}\${attemptInfo} - "\${${bodyLabel}}"\`);
+
+        if (message.attempts > 1) {
+          console.log(\`    ⚠️  This is retry #\${message.attempts - 1}\`);
+        }${dispatchCall}${workflowStart}
+      }
+
+      // Simulate processing time
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      batch.ackAll();
+      await logEvent(store, "batch_complete", "acked", {
+        batchId,
+        wasRetry: isRetry,
+        attempts: maxAttempts,
+      });
+    } catch (error) {
+      await logEvent(store, "batch_failed", "retry", {
+        batchId,
+        attempts: maxAttempts,
+        // max_retries = ${maxRetries}, so a message is delivered at most ${maxRetries + 1} times
+        willRetry: maxAttempts <= ${maxRetries},
+        retryDelaySeconds: ${retryDelay},
+      });
+      batch.retryAll();
+    }
+`;
+  const backoffCode = ackMode === 'message' ? generateBackoffCode(backoff, retryDelay) : '';
+  const batchMessageBody = messageSchema
+    ? `  // Every entry is checked against the message schema before anything is sent
+  const bodies: Message[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const result = validateMessage(entry.body);
+    if (!result.ok) {
+      return batchError(\`Entry \${index}: \${result.error}\`);
+    }
+    bodies.push(result.message);
+  }
+`
+    : `  // Plain-text demo messages; other JSON values are sent as their JSON text
+  const bodies = entries.map((entry) =>
+    typeof entry.body === "string" ? entry.body : JSON.stringify(entry.body)
+  );
+`;
+  const producerBody = messageSchema
+    ? `    // Create message ID
+    const messageId = crypto.randomUUID().slice(0, 8);
+    // Reject bodies that don't match the message schema before they reach the queue
+    const parsed = parseMessage(await request.text());
+    if (!parsed.ok) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: parsed.error,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Get Durable Object instance
+    const id = env.EVENT_STORE.idFromName("global");
+    const store = env.EVENT_STORE.get(id);
+
+    await logEvent(store, "enqueue", "pending", { messageId, body: parsed.message.type });
+
+    // Send to the queue with message data
+    await sendMessage(env.${options.bindingName}, parsed.message, { id: messageId });
+`
+    : `    // Create message ID
+    const messageId = crypto.randomUUID().slice(0, 8);
+    // Get body from request
+    const body = (await request.text()) || "default message";
+
+    // Get Durable Object instance
+    const id = env.EVENT_STORE.idFromName("global");
+    const store = env.EVENT_STORE.get(id);
+
+    await logEvent(store, "enqueue", "pending", { messageId, body });
+
+    // Send to the queue with message data
+    await env.${options.bindingName}.send({
+      id: messageId,
+      body: body,
+      timestamp: Date.now(),
+    });
+`;
+
+  const header = mount
+    ? `// Cloudflare Workers Queue - Producer and Consumer
+// The entry file hands requests under ${mount.basePath} to handleQueueRequest and
+// queue batches to handleQueueBatch; it also exports EventStore
+`
+    : `// Cloudflare Workers Queue - Producer and Consumer
+// This worker acts as both producer (fetch handler) and consumer (queue handler)
+// Cloudflare handles scaling and separation at runtime
+
+import { EventStore } from "./event-store";`;
+  // Mounted routes are matched relative to basePath, which the EventStore doesn't know about
+  const mountRewrite = mount
+    ? `
+    // Routes below are relative to ${mount.basePath}
+    url.pathname = url.pathname.slice(${JSON.stringify(mount.basePath)}.length) || "/";`
+    : '';
+  const storeRequest = mount ? 'new Request(url, request)' : 'request';
+  const mountExports = mount
+    ? `
+// Called from the entry file's fetch handler for requests under ${mount.basePath}
+export function handleQueueRequest(request: Request, env: Env): Promise<Response> {
+  return queueDemo.fetch(request, env);
+}
 
-type QueuePhase = "pending" | "batched" | "processing" | "acked" | "retry";
+// Called from the entry file's queue handler
+export function handleQueueBatch(batch: MessageBatch, env: Env): Promise<void> {
+  return queueDemo.queue(batch as MessageBatch<QueueMessage>, env);
+}
+`
+    : '';
+
+  return `${header}${dashboardImport}${messagesImport}${workflowImport}${analyticsImport}${rateLimitImport}
+
+interface Env {
+  ${options.bindingName}: Queue${messageSchema ? '<QueueMessage>' : ''};
+  EVENT_STORE: DurableObjectNamespace;${workflowBinding}${analyticsBinding}${rateLimitBinding}${assetsBinding}
+}
 
+${mount ? '' : `export { EventStore };${workflowExport}
+`}${queueMessageInterface}
+type QueuePhase = "pending" | "batched" | "processing" | "acked" | "retry" | "dead-lettered";
+${backoffCode}
 // Helper function to log events
 async function logEvent(
   store: DurableObjectStub,
@@ -50,61 +630,207 @@ async function logEvent(
   });
 }
 
-export default {
-  // Producer: HTTP endpoint to send messages to queue
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const url = new URL(request.url);
+// Queues limits: 100 messages and 256 KB per sendBatch call, 128 KB per message
+const SEND_BATCH_MAX_MESSAGES = 100;
+const SEND_BATCH_MAX_BYTES = 256 * 1024;
+const MESSAGE_MAX_BYTES = 128 * 1024;
+// Headroom for the per-message metadata Queues adds on top of the body
+const MESSAGE_OVERHEAD_BYTES = 100;
+// Most messages one POST /batch may enqueue
+const BATCH_REQUEST_MAX_MESSAGES = 1000;
+
+interface BatchEntry {
+  body: unknown;
+  delaySeconds?: number;
+  contentType?: QueueContentType;
+}
 
-    // GET / - Serve dashboard
-    if (request.method === "GET" && url.pathname === "/") {
-      return new Response(dashboardHTML, {
-        headers: { "Content-Type": "text/html" },
+// The request is a JSON array or NDJSON. Each entry is a message body, or
+// { body, delaySeconds?, contentType? } to set per-message send options
+function parseBatchRequest(text: string): BatchEntry[] {
+  const trimmed = text.trim();
+  let items: unknown[];
+
+  if (trimmed.startsWith("[")) {
+    try {
+      items = JSON.parse(trimmed);
+    } catch {
+      throw new Error("Body is not a valid JSON array");
+    }
+  } else {
+    items = trimmed
+      .split("\\n")
+      .map((line, index) => [line.trim(), index] as const)
+      .filter(([line]) => line)
+      .map(([line, index]) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(\`Line \${index + 1} is not valid JSON\`);
+        }
       });
+  }
+
+  return items.map((item, index) => {
+    if (typeof item !== "object" || item === null || Array.isArray(item) || !("body" in item)) {
+      return { body: item };
     }
 
+    const { body, delaySeconds, contentType } = item as Record<string, unknown>;
+    if (
+      delaySeconds !== undefined &&
+      (typeof delaySeconds !== "number" || delaySeconds < 0 || delaySeconds > 43200)
+    ) {
+      throw new Error(\`Entry \${index}: delaySeconds must be between 0 and 43200\`);
+    }
+    // Messages are { id, body, timestamp } objects, which only json and v8 can carry
+    if (contentType !== undefined && contentType !== "json" && contentType !== "v8") {
+      throw new Error(\`Entry \${index}: contentType must be "json" or "v8"\`);
+    }
+
+    return { body, delaySeconds, contentType };
+  });
+}
+
+// Split messages into sendBatch calls that stay under the count and size limits
+function chunkBatch(
+  messages: MessageSendRequest<QueueMessage>[]
+): MessageSendRequest<QueueMessage>[][] {
+  const encoder = new TextEncoder();
+  const chunks: MessageSendRequest<QueueMessage>[][] = [];
+  let chunk: MessageSendRequest<QueueMessage>[] = [];
+  let chunkBytes = 0;
+
+  for (const message of messages) {
+    const bytes = encoder.encode(JSON.stringify(message.body)).length + MESSAGE_OVERHEAD_BYTES;
+    if (bytes > MESSAGE_MAX_BYTES) {
+      throw new Error(\`Message \${message.body.id} is larger than 128 KB\`);
+    }
+
+    if (chunk.length === SEND_BATCH_MAX_MESSAGES || chunkBytes + bytes > SEND_BATCH_MAX_BYTES) {
+      chunks.push(chunk);
+      chunk = [];
+      chunkBytes = 0;
+    }
+    chunk.push(message);
+    chunkBytes += bytes;
+  }
+
+  if (chunk.length > 0) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+function batchError(error: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error,
+    }),
+    {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+// POST /batch - Enqueue many messages with sendBatch, e.g. to load-test the consumer
+async function enqueueBatch(
+  request: Request,
+  env: Env,
+  store: DurableObjectStub
+): Promise<Response> {
+  let entries: BatchEntry[];
+  try {
+    entries = parseBatchRequest(await request.text());
+  } catch (error) {
+    return batchError(error instanceof Error ? error.message : "Invalid batch");
+  }
+
+  if (entries.length === 0 || entries.length > BATCH_REQUEST_MAX_MESSAGES) {
+    return batchError(\`Send between 1 and \${BATCH_REQUEST_MAX_MESSAGES} messages\`);
+  }
+
+${batchMessageBody}
+  const messages: MessageSendRequest<QueueMessage>[] = entries.map((entry, index) => ({
+    body: {
+      id: crypto.randomUUID().slice(0, 8),
+      body: bodies[index],
+      timestamp: Date.now(),
+    },
+    delaySeconds: entry.delaySeconds,
+    contentType: entry.contentType,
+  }));
+
+  let chunks: MessageSendRequest<QueueMessage>[][];
+  try {
+    chunks = chunkBatch(messages);
+  } catch (error) {
+    return batchError(error instanceof Error ? error.message : "Message too large");
+  }
+
+  const messageIds = messages.map((message) => message.body.id);
+  await logEvent(store, "enqueue_batch", "pending", {
+    messageIds,
+    messageCount: messages.length,
+    chunks: chunks.length,
+    delayed: messages.filter((message) => message.delaySeconds).length,
+  });
+
+  for (const chunk of chunks) {
+    await env.${options.bindingName}.sendBatch(chunk);
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      messageIds,
+      chunks: chunks.length,
+    }),
+    {
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+${mount ? 'const queueDemo = {' : 'export default {'}
+  // Producer: HTTP endpoint to send messages to queue
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);${mountRewrite}
+${dashboardRoute}${workflowRoute}${analyticsRoute}
     // GET /events - Query stored events
     if (request.method === "GET" && url.pathname === "/events") {
       const id = env.EVENT_STORE.idFromName("global");
       const store = env.EVENT_STORE.get(id);
-      return store.fetch(request);
+      return store.fetch(${storeRequest});
     }
 
     // GET /stream - SSE endpoint for real-time updates
     if (request.method === "GET" && url.pathname === "/stream") {
       const id = env.EVENT_STORE.idFromName("global");
       const store = env.EVENT_STORE.get(id);
-      return store.fetch(request);
+      return store.fetch(${storeRequest});
     }
 
     // DELETE /events - Clear all events
     if (request.method === "DELETE" && url.pathname === "/events") {
       const id = env.EVENT_STORE.idFromName("global");
       const store = env.EVENT_STORE.get(id);
-      return store.fetch(request);
+      return store.fetch(${storeRequest});
     }
 
     if (request.method !== "POST") {
-      return new Response("Method not allowed", { status: 405 });
-    }
+      ${notPostResponse}
+    }${rateLimitCheck}
 
-    // Create message ID
-    const messageId = crypto.randomUUID().slice(0, 8);
-    // Get body from request
-    const body = (await request.text()) || "default message";
-
-    // Get Durable Object instance
-    const id = env.EVENT_STORE.idFromName("global");
-    const store = env.EVENT_STORE.get(id);
-
-    await logEvent(store, "enqueue", "pending", { messageId, body });
-
-    // Send to the queue with message data
-    await env.${options.bindingName}.send({
-      id: messageId,
-      body: body,
-      timestamp: Date.now(),
-    });
+    // POST /batch - Enqueue a JSON array or NDJSON of messages
+    if (url.pathname === "/batch") {
+      const id = env.EVENT_STORE.idFromName("global");
+      return enqueueBatch(request, env, env.EVENT_STORE.get(id));
+    }
 
+${producerBody}
     // Return success response
     return new Response(
       JSON.stringify({
@@ -124,11 +850,11 @@ export default {
 
     // Get Durable Object instance
     const id = env.EVENT_STORE.idFromName("global");
-    const store = env.EVENT_STORE.get(id);
+    const store = env.EVENT_STORE.get(id);${deadLetterConsumer}
 
     // Check if any messages in this batch are retries
     const isRetry = batch.messages.some(msg => msg.attempts > 1);
-    const maxAttempts = Math.max(...batch.messages.map(msg => msg.attempts));
+    const maxAttempts = Math.max(...batch.messages.map(msg => msg.attempts));${analyticsRecord}
 
     // Log that batch has been delivered (batched)
     await logEvent(store, "batch_delivered", "batched", {
@@ -138,68 +864,418 @@ export default {
       maxAttempts,
     });
 
-    try {
-      // Log that processing is starting
-      await logEvent(store, "batch_processing", "processing", {
-        batchId,
-        messageCount: batch.messages.length,
+${consumerBody}  },
+};
+${mountExports}`;
+}
+
+// Producer-only Worker: the consumer lives in another Worker, so there is no
+// queue handler, EventStore or dashboard here
+export function generateQueueProducerCode(options: QueueTemplateOptions): string {
+  const { queueName, bindingName, messageSchema } = options;
+
+  if (messageSchema) {
+    return `// Cloudflare Workers Queue - Producer
+// Validates JSON bodies against the message schema and sends them to ${queueName};
+// a separate Worker consumes them
+
+import { parseMessage, sendMessage, type QueueMessage } from "./messages";
+
+interface Env {
+  ${bindingName}: Queue<QueueMessage>;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Queue Producer\\n\\nPOST a JSON message to enqueue it on ${queueName}", {
+        headers: { "Content-Type": "text/plain" },
       });
+    }
 
-      // 20% failure rate to simulate processing errors
-      const shouldFail = Math.random() < 0.2
+    const parsed = parseMessage(await request.text());
+    if (!parsed.ok) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: parsed.error,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
 
-      if (shouldFail) {
-        throw new Error("Simulated batch processing failure");
+    // Other code in this Worker can call sendMessage(env.${bindingName}, { type: ... }) directly
+    const message = await sendMessage(env.${bindingName}, parsed.message);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        messageId: message.id,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
       }
+    );
+  },
+} satisfies ExportedHandler<Env>;
+`;
+  }
 
-      // Loop through messages and log them
-      for (const message of batch.messages) {
-        const msg = message.body as QueueMessage;
-        const attemptInfo = message.attempts > 1 ? \` (attempt \${message.attempts})\` : '';
-        console.log(\`  → Processing: \${msg.id}\${attemptInfo} - "\${msg.body}"\`);
+  return `// Cloudflare Workers Queue - Producer
+// Sends messages to ${queueName}; a separate Worker consumes them
 
-        if (message.attempts > 1) {
-          console.log(\`    ⚠️  This is retry #\${message.attempts - 1}\`);
-        }
+interface Env {
+  ${bindingName}: Queue<QueueMessage>;
+}
+
+// Keep in sync with the consumer Worker's message shape
+interface QueueMessage {
+  id: string;
+  body: string;
+  timestamp: number;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Queue Producer\\n\\nPOST a body to enqueue it on ${queueName}", {
+        headers: { "Content-Type": "text/plain" },
+      });
+    }
+
+    const message: QueueMessage = {
+      id: crypto.randomUUID().slice(0, 8),
+      body: (await request.text()) || "default message",
+      timestamp: Date.now(),
+    };
+
+    await env.${bindingName}.send(message);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        messageId: message.id,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
       }
+    );
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
 
-      // Simulate processing time
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+// Consumer-only Worker: messages are produced elsewhere, so there is no
+// fetch handler; each message is acked or retried on its own
+export function generateQueueConsumerCode(options: Omit<QueueTemplateOptions, 'bindingName'>): string {
+  const { queueName, deadLetterQueue, maxRetries = 3, retryDelay = 0, backoff, messageSchema, mount } = options;
+  const backoffCode = backoff ? generateBackoffCode(backoff, retryDelay) : '';
+  const retryCall = backoff
+    ? 'message.retry({ delaySeconds: getRetryDelaySeconds(message.attempts) });'
+    : 'message.retry();';
+  const retryOutcome = deadLetterQueue
+    ? `then moved to\n        // ${deadLetterQueue.queueName}, where they stay until you inspect or replay them`
+    : 'then dropped';
+  const messagesImport = messageSchema
+    ? `import { dispatchMessage, type MessageHandlers, type QueueMessage } from "./messages";
+
+`
+    : '';
+  const queueMessageInterface = messageSchema
+    ? generateMessageHandlersCode(messageSchema.types)
+    : `
+// Keep in sync with the producer Worker's message shape
+interface QueueMessage {
+  id: string;
+  body: string;
+  timestamp: number;
+}
+`;
 
-      batch.ackAll();
-      await logEvent(store, "batch_complete", "acked", {
-        batchId,
-        wasRetry: isRetry,
-        attempts: maxAttempts,
+  const mountExports = mount
+    ? `
+// Called from the entry file's queue handler
+export function handleQueueBatch(batch: MessageBatch, env: Env): Promise<void> {
+  return queueConsumer.queue(batch as MessageBatch<QueueMessage>, env);
+}
+`
+    : '';
+
+  return `// Cloudflare Workers Queue - Consumer
+// Processes batches from ${queueName}; ${mount ? "the entry file's queue handler calls handleQueueBatch" : 'a separate Worker produces them'}
+
+${messagesImport}// Add the bindings your processing needs here
+interface Env {}
+${queueMessageInterface}${backoffCode}
+${mount ? 'const queueConsumer = {' : 'export default {'}
+  async queue(batch: MessageBatch<QueueMessage>, env: Env): Promise<void> {
+    for (const message of batch.messages) {
+      try {
+        const msg = message.body;
+        console.log(\`→ Processing: \${msg.id} (attempt \${message.attempts}) - "\${${messageSchema ? 'msg.body.type' : 'msg.body'}}"\`);${messageSchema ? `
+
+        await dispatchMessage(msg, messageHandlers);` : ''}
+
+        message.ack();
+      } catch (error) {
+        // Redelivered up to max_retries (${maxRetries}) times, ${retryOutcome}
+        console.error(\`Failed to process \${message.id}:\`, error);
+        ${retryCall}
+      }
+    }
+  },
+} satisfies ExportedHandler<Env, QueueMessage>;
+${mountExports}`;
+}
+
+export interface PullClientTemplateOptions {
+  queueName: string;
+  batchSize?: number; // Messages per pull, 1-100
+  retryDelay?: number; // Seconds before a retried message is redelivered
+}
+
+export const PULL_CLIENT_PATH = 'scripts/pull-consumer.ts';
+
+// Node/TypeScript client for an http_pull consumer: pulls a batch over the
+// Queues REST API, processes each message, then acks or retries it by lease ID
+export function generatePullClientCode(options: PullClientTemplateOptions): string {
+  const { queueName, batchSize = 10, retryDelay = 0 } = options;
+
+  return `// Cloudflare Queues HTTP pull consumer for ${queueName}
+// Runs outside Cloudflare (Node 18+): pulls batches over the Queues REST API,
+// processes each message and acks or retries it.
+//
+//   CF_ACCOUNT_ID=... CF_API_TOKEN=... QUEUE_ID=... npx tsx ${PULL_CLIENT_PATH}
+//
+// QUEUE_ID comes from \`npx wrangler queues info ${queueName}\`; the API token needs
+// Queues Edit permission. Pass --base-url (or QUEUES_API_BASE_URL) to point the
+// client at a local stand-in, and --once to pull a single batch and exit.
+
+const DEFAULT_BASE_URL = "https://api.cloudflare.com/client/v4";
+const BATCH_SIZE = ${batchSize};
+const VISIBILITY_TIMEOUT_MS = 30_000;
+const RETRY_DELAY_SECONDS = ${retryDelay};
+const IDLE_POLL_MS = 1_000;
+
+export interface PullClientOptions {
+  baseUrl?: string;
+  accountId: string;
+  apiToken: string;
+  queueId: string;
+}
+
+export interface PulledMessage {
+  id: string;
+  body: string;
+  timestamp_ms: number;
+  attempts: number;
+  lease_id: string;
+  metadata?: Record<string, string>;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  errors?: { code: number; message: string }[];
+  result: T;
+}
+
+export function createPullClient(options: PullClientOptions) {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\\/+$/, "");
+  const queueUrl = \`\${baseUrl}/accounts/\${options.accountId}/queues/\${options.queueId}/messages\`;
+
+  async function call<T>(path: string, body: unknown): Promise<T> {
+    const response = await fetch(\`\${queueUrl}/\${path}\`, {
+      method: "POST",
+      headers: {
+        Authorization: \`Bearer \${options.apiToken}\`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+    const data = (await response.json()) as ApiResponse<T>;
+
+    if (!response.ok || !data.success) {
+      const message = data.errors?.map((error) => error.message).join(", ") || response.statusText;
+      throw new Error(\`Queues API \${path} failed (\${response.status}): \${message}\`);
+    }
+
+    return data.result;
+  }
+
+  return {
+    // Leases up to batchSize messages; unacked leases are redelivered after the timeout
+    async pull(batchSize = BATCH_SIZE, visibilityTimeoutMs = VISIBILITY_TIMEOUT_MS): Promise<PulledMessage[]> {
+      const result = await call<{ messages: PulledMessage[] }>("pull", {
+        batch_size: batchSize,
+        visibility_timeout_ms: visibilityTimeoutMs,
       });
-    } catch (error) {
-      await logEvent(store, "batch_failed", "retry", {
-        batchId,
-        attempts: maxAttempts,
-        willRetry: maxAttempts < 3,
+      return result.messages ?? [];
+    },
+
+    async ack(acks: string[], retries: string[] = [], delaySeconds = RETRY_DELAY_SECONDS): Promise<void> {
+      await call("ack", {
+        acks: acks.map((leaseId) => ({ lease_id: leaseId })),
+        retries: retries.map((leaseId) => ({ lease_id: leaseId, delay_seconds: delaySeconds })),
       });
-      batch.retryAll();
+    },
+  };
+}
+
+export type PullClient = ReturnType<typeof createPullClient>;
+
+// Messages sent with contentType "json" or "text" arrive as strings, "bytes" as base64
+export function decodeBody(message: PulledMessage): unknown {
+  switch (message.metadata?.["CF-Content-Type"]) {
+    case "json":
+      return JSON.parse(message.body);
+    case "bytes":
+      return Buffer.from(message.body, "base64");
+    default:
+      return message.body;
+  }
+}
+
+// Replace with your own processing; throwing retries the message
+export async function processMessage(body: unknown, message: PulledMessage): Promise<void> {
+  console.log(\`→ Processing: \${message.id} (attempt \${message.attempts})\`, body);
+}
+
+// Pulls one batch, then acks what succeeded and retries what threw.
+// Returns the number of messages pulled.
+export async function pullAndProcess(
+  client: PullClient,
+  handler: typeof processMessage = processMessage
+): Promise<number> {
+  const messages = await client.pull();
+  const acks: string[] = [];
+  const retries: string[] = [];
+
+  for (const message of messages) {
+    try {
+      await handler(decodeBody(message), message);
+      acks.push(message.lease_id);
+    } catch (error) {
+      console.error(\`Failed to process \${message.id}:\`, error);
+      retries.push(message.lease_id);
     }
-  },
-};
+  }
+
+  if (messages.length > 0) {
+    await client.ack(acks, retries);
+    console.log(\`Acked \${acks.length}, retried \${retries.length}\`);
+  }
+
+  return messages.length;
+}
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(\`--\${name}\`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    console.error(\`Missing \${name} environment variable\`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  const client = createPullClient({
+    baseUrl: getArg("base-url") ?? process.env.QUEUES_API_BASE_URL,
+    accountId: requireEnv("CF_ACCOUNT_ID"),
+    apiToken: requireEnv("CF_API_TOKEN"),
+    queueId: requireEnv("QUEUE_ID"),
+  });
+
+  if (process.argv.includes("--once")) {
+    await pullAndProcess(client);
+    return;
+  }
+
+  let running = true;
+  process.on("SIGINT", () => {
+    running = false;
+  });
+
+  console.log("Pulling from ${queueName} (Ctrl+C to stop)...");
+  while (running) {
+    const pulled = await pullAndProcess(client);
+    if (pulled === 0) {
+      await new Promise((resolve) => setTimeout(resolve, IDLE_POLL_MS));
+    }
+  }
+}
+
+// Only start polling when run directly, so the client can be imported in tests
+if (import.meta.url === \`file://\${process.argv[1]}\`) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
 `;
 }
 
 export function generateEventStoreCode(): string {
   return `export interface FlowEvent {
+  id?: number; // Sequence number assigned when the event is stored
   timestamp: number;
   event: string;
   phase: string;
   [key: string]: any;
 }
 
+// Retention defaults; override them with the EVENT_RETENTION_MAX_EVENTS and
+// EVENT_RETENTION_MAX_AGE_HOURS vars in your wrangler config
+const DEFAULT_MAX_EVENTS = 1000;
+const DEFAULT_MAX_AGE_HOURS = 24;
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+// GET /events page sizes, and the most events replayed to a reconnecting stream
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// GET /stream limits. Proxies close idle streams, so a comment is sent every
+// HEARTBEAT_INTERVAL_MS; clients that stop reading are dropped once
+// MAX_QUEUED_WRITES messages are waiting for them
+const MAX_CONNECTIONS = 50;
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const RECONNECT_DELAY_MS = 3000;
+const MAX_QUEUED_WRITES = 100;
+
+const encoder = new TextEncoder();
+
+interface EventStoreEnv {
+  EVENT_RETENTION_MAX_EVENTS?: string;
+  EVENT_RETENTION_MAX_AGE_HOURS?: string;
+}
+
 export class EventStore {
   private state: DurableObjectState;
-  private events: FlowEvent[] = [];
+  private sql: SqlStorage;
+  private maxEvents: number;
+  private maxAgeMs: number;
   private connections: Set<WritableStreamDefaultWriter> = new Set();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
 
-  constructor(state: DurableObjectState) {
+  constructor(state: DurableObjectState, env: EventStoreEnv) {
     this.state = state;
+    this.sql = state.storage.sql;
+    this.maxEvents = readLimit(env.EVENT_RETENTION_MAX_EVENTS, DEFAULT_MAX_EVENTS);
+    this.maxAgeMs = readLimit(env.EVENT_RETENTION_MAX_AGE_HOURS, DEFAULT_MAX_AGE_HOURS) * 60 * 60 * 1000;
+
+    // Events survive eviction in the object's SQLite storage; AUTOINCREMENT keeps
+    // ids increasing after a clear, so clients can page through them with ?since=
+    this.sql.exec(
+      "CREATE TABLE IF NOT EXISTS events (id INTEGER PRIMARY KEY AUTOINCREMENT, timestamp INTEGER NOT NULL, data TEXT NOT NULL)"
+    );
+    this.sql.exec("CREATE INDEX IF NOT EXISTS events_timestamp ON events (timestamp)");
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -207,51 +1283,121 @@ export class EventStore {
 
     // POST /event - Add event
     if (request.method === 'POST' && url.pathname === '/event') {
-      const event = await request.json();
-      this.events.push(event as FlowEvent);
-
-      // Keep last 100 only
-      if (this.events.length > 100) {
-        this.events.shift();
-      }
+      const event = (await request.json()) as FlowEvent;
+      const stored = this.insertEvent(event);
+      await this.scheduleCleanup();
 
       // Broadcast to all SSE connections
-      await this.broadcast(event as FlowEvent);
+      this.broadcast(stored);
 
       return new Response('OK');
     }
 
-    // GET /events - Get all events
+    // GET /events?since=<id>&limit=<n> - Page through stored events
     if (request.method === 'GET' && url.pathname === '/events') {
-      return new Response(JSON.stringify(this.events), {
+      const since = url.searchParams.get('since');
+      const limit = url.searchParams.get('limit');
+      if ((since !== null && !/^\\d+$/.test(since)) || (limit !== null && !/^[1-9]\\d*$/.test(limit))) {
+        return new Response(JSON.stringify({ error: 'since must be an event id and limit a positive integer' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const page = this.getEvents(since === null ? null : Number(since), Math.min(Number(limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE));
+      return new Response(JSON.stringify(page), {
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
     // DELETE /events - Clear all events
     if (request.method === 'DELETE' && url.pathname === '/events') {
-      this.events = [];
+      this.sql.exec('DELETE FROM events');
+      await this.state.storage.deleteAlarm();
       return new Response('OK');
     }
 
     // GET /stream - SSE endpoint for real-time updates
     if (request.method === 'GET' && url.pathname === '/stream') {
-      return this.handleSSE();
+      return this.handleSSE(request);
     }
 
     return new Response('Not Found', { status: 404 });
   }
 
-  private handleSSE(): Response {
+  // Alarm: drop events past the retention window, and keep checking while any remain
+  async alarm(): Promise<void> {
+    this.sql.exec('DELETE FROM events WHERE timestamp < ?', Date.now() - this.maxAgeMs);
+    this.sql.exec('DELETE FROM events WHERE id <= (SELECT MAX(id) FROM events) - ?', this.maxEvents);
+
+    const { count } = this.sql.exec<{ count: number }>('SELECT COUNT(*) AS count FROM events').one();
+    if (count > 0) {
+      await this.state.storage.setAlarm(Date.now() + CLEANUP_INTERVAL_MS);
+    }
+  }
+
+  private insertEvent(event: FlowEvent): FlowEvent {
+    const timestamp = typeof event.timestamp === 'number' ? event.timestamp : Date.now();
+    const { id } = this.sql
+      .exec<{ id: number }>('INSERT INTO events (timestamp, data) VALUES (?, ?) RETURNING id', timestamp, JSON.stringify(event))
+      .one();
+
+    // Enforce the count limit as events arrive; the alarm handles age
+    this.sql.exec('DELETE FROM events WHERE id <= ?', id - this.maxEvents);
+
+    return { ...event, timestamp, id };
+  }
+
+  // Events after \`since\` oldest first, or the latest page when since is omitted
+  private getEvents(since: number | null, limit: number): { events: FlowEvent[]; nextSince: number; hasMore: boolean } {
+    const rows = since === null
+      ? this.sql
+          .exec<{ id: number; data: string }>('SELECT id, data FROM (SELECT id, data FROM events ORDER BY id DESC LIMIT ?) ORDER BY id', limit)
+          .toArray()
+      : this.sql
+          .exec<{ id: number; data: string }>('SELECT id, data FROM events WHERE id > ? ORDER BY id LIMIT ?', since, limit + 1)
+          .toArray();
+
+    const hasMore = since !== null && rows.length > limit;
+    const events = rows.slice(0, limit).map((row) => ({ ...JSON.parse(row.data), id: row.id }) as FlowEvent);
+    const nextSince = events.length > 0 ? events[events.length - 1].id! : since ?? 0;
+
+    return { events, nextSince, hasMore };
+  }
+
+  private async scheduleCleanup(): Promise<void> {
+    if ((await this.state.storage.getAlarm()) === null) {
+      await this.state.storage.setAlarm(Date.now() + CLEANUP_INTERVAL_MS);
+    }
+  }
+
+  private handleSSE(request: Request): Response {
+    if (this.connections.size >= MAX_CONNECTIONS) {
+      return new Response('Too many event stream connections', {
+        status: 503,
+        headers: { 'Retry-After': '10' }
+      });
+    }
+
     const { readable, writable } = new TransformStream();
     const writer = writable.getWriter();
 
-    // Track connection
+    // Track connection until the client disconnects
     this.connections.add(writer);
-
-    // Send initial connection message
-    const encoder = new TextEncoder();
-    writer.write(encoder.encode('data: connected\\n\\n'));
+    const close = () => this.closeConnection(writer);
+    request.signal.addEventListener('abort', close);
+    writer.closed.then(close, close);
+
+    // Send the reconnect delay and initial connection message, then replay
+    // anything a reconnecting EventSource missed since its Last-Event-ID
+    let initial = \`retry: \${RECONNECT_DELAY_MS}\\ndata: connected\\n\\n\`;
+    const lastEventId = request.headers.get('Last-Event-ID');
+    if (lastEventId && /^\\d+$/.test(lastEventId)) {
+      const { events } = this.getEvents(Number(lastEventId), MAX_PAGE_SIZE);
+      initial += events.map(formatEvent).join('');
+    }
+    this.send(writer, initial);
+    this.startHeartbeat();
 
     return new Response(readable, {
       headers: {
@@ -262,24 +1408,102 @@ export class EventStore {
     });
   }
 
-  private async broadcast(event: FlowEvent) {
-    const encoder = new TextEncoder();
-    const data = \`data: \${JSON.stringify(event)}\\n\\n\`;
-
+  private broadcast(event: FlowEvent) {
+    const message = formatEvent(event);
     for (const writer of this.connections) {
-      try {
-        await writer.write(encoder.encode(data));
-      } catch (error) {
-        // Connection closed, remove it
-        this.connections.delete(writer);
+      this.send(writer, message);
+    }
+  }
+
+  // Writes without waiting, so one slow client can't hold up the others
+  private send(writer: WritableStreamDefaultWriter, message: string) {
+    if ((writer.desiredSize ?? 0) < -MAX_QUEUED_WRITES) {
+      this.closeConnection(writer);
+      return;
+    }
+    writer.write(encoder.encode(message)).catch(() => this.closeConnection(writer));
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeat !== null) return;
+
+    this.heartbeat = setInterval(() => {
+      for (const writer of this.connections) {
+        this.send(writer, ': keep-alive\\n\\n');
       }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private closeConnection(writer: WritableStreamDefaultWriter) {
+    if (!this.connections.delete(writer)) return;
+
+    writer.abort().catch(() => {});
+    if (this.connections.size === 0 && this.heartbeat !== null) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
     }
   }
 }
+
+function formatEvent(event: FlowEvent): string {
+  return \`id: \${event.id}\\ndata: \${JSON.stringify(event)}\\n\\n\`;
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
 `;
 }
 
-export function generateDashboardHTML(): string {
+export function generateDashboardHTML(options: DashboardOptions = {}): string {
+  const {
+    deadLetterQueue,
+    maxBatchSize = 4,
+    maxBatchTimeout = 3,
+    maxRetries = 3,
+    maxConcurrency,
+    sampleMessages,
+    basePath = '',
+  } = options;
+  const deadLetterStat = deadLetterQueue
+    ? `
+         <div class="stat-item">
+           <span class="stat-label">Dead-lettered</span>
+           <span class="stat-value" id="stat-dead-lettered">0</span>
+         </div>`
+    : '';
+  const deadLetterLane = deadLetterQueue
+    ? `
+
+           <div class="queue-status dead-letter-status">
+             <span>Dead-letter queue · ${deadLetterQueue}</span>
+             <span class="queue-count" id="dead-letter-count">0</span>
+           </div>
+
+           <div class="queue-messages dead-letter-messages" id="dead-letter-messages">
+             <!-- Messages that exhausted max_retries will be inserted here -->
+           </div>`
+    : '';
+
+  // Typed producers reject free text, so send a valid sample of each message type in turn
+  const sampleMessagesCode = sampleMessages
+    ? `
+     // One valid body per message type, sent in rotation
+     const SAMPLE_MESSAGES = ${JSON.stringify(sampleMessages).replace(/</g, '\\u003c')};
+`
+    : '';
+  const nextMessage = sampleMessages
+    ? 'SAMPLE_MESSAGES[messageCounter++ % SAMPLE_MESSAGES.length]'
+    : '`MSG_${++messageCounter}`';
+  const messageBody = sampleMessages ? `JSON.stringify(${nextMessage})` : nextMessage;
+  const rejectedWarning = sampleMessages
+    ? ` else if (response.status === 400) {
+           const { error } = await response.json();
+           console.warn('Rejected by the message schema:', error);
+         }`
+    : '';
+
   // Copy the entire dashboard HTML from templates.ts
   // Using the same template for now
   return `<!DOCTYPE html>
@@ -437,10 +1661,30 @@ export function generateDashboardHTML(): string {
      .producer .enqueue-btn {
        width: 100%;
        padding: 16px;
-       margin-bottom: 24px;
+       margin-bottom: 12px;
        font-size: 12px;
      }
 
+     .burst-controls {
+       display: flex;
+       gap: 8px;
+       margin-bottom: 24px;
+     }
+
+     .burst-controls input {
+       width: 72px;
+       padding: 8px;
+       background: #000;
+       border: 1px solid #262626;
+       color: #fafafa;
+       font-family: inherit;
+       font-size: 11px;
+     }
+
+     .burst-controls button {
+       flex: 1;
+     }
+
      .queue-status {
        font-size: 10px;
        color: #737373;
@@ -477,6 +1721,18 @@ export function generateDashboardHTML(): string {
        background: #737373;
      }
 
+     .dead-letter-status {
+       margin-top: 24px;
+     }
+
+     .dead-letter-messages {
+       border-color: rgba(168, 85, 247, 0.4);
+     }
+
+     .dead-letter-messages .bullet {
+       background: #a855f7;
+     }
+
      .timeout-info {
        margin-top: 12px;
        font-size: 9px;
@@ -573,6 +1829,20 @@ export function generateDashboardHTML(): string {
        margin-bottom: 4px;
      }
 
+     .outcome.acked .bullet {
+       background: #22c55e;
+     }
+
+     .outcome.retry .bullet {
+       background: #ef4444;
+     }
+
+     .outcome-label {
+       margin-left: auto;
+       font-size: 9px;
+       text-transform: uppercase;
+     }
+
      .progress-bar {
        height: 3px;
        background: #262626;
@@ -646,6 +1916,10 @@ export function generateDashboardHTML(): string {
        color: #ef4444;
      }
 
+     .event.dead-lettered .event-phase {
+       color: #a855f7;
+     }
+
      .event-time {
        font-size: 8px;
        color: #404040;
@@ -750,7 +2024,7 @@ export function generateDashboardHTML(): string {
          <div class="stat-item">
            <span class="stat-label">Retried</span>
            <span class="stat-value" id="stat-retried">0</span>
-         </div>
+         </div>${deadLetterStat}
        </div>
        <div class="header-actions">
          <span class="instance-label">Queue Instance</span>
@@ -767,10 +2041,15 @@ export function generateDashboardHTML(): string {
              Enqueue Message
            </button>
 
+           <div class="burst-controls">
+             <input type="number" id="burst-count" min="1" max="1000" value="25" aria-label="Messages per burst">
+             <button onclick="burstMessages()">Burst messages</button>
+           </div>
+
            <div class="queue-status">
              <span>Queue</span>
              <span class="queue-count">
-               <span id="queue-count">0</span>/4
+               <span id="queue-count">0</span>/${maxBatchSize}
              </span>
            </div>
 
@@ -778,7 +2057,7 @@ export function generateDashboardHTML(): string {
              <!-- Messages will be inserted here -->
            </div>
 
-           <div class="timeout-info">Batch timeout: 3000ms</div>
+           <div class="timeout-info">Batch timeout: ${maxBatchTimeout * 1000}ms · Max retries: ${maxRetries} · Concurrency: ${maxConcurrency ?? 'auto'}</div>${deadLetterLane}
          </div>
        </section>
 
@@ -803,47 +2082,78 @@ export function generateDashboardHTML(): string {
    <script>
      let messageCounter = 0;
      let currentQueue = [];
-     let lastEventCount = 0;
+     let lastEventId = 0;
      let lastLogEventCount = 0;
      let updatePending = false;
      let activeBatch = null;
      let lastRenderedBatchState = null;
-
+${sampleMessagesCode}
      // Enqueue a message
      async function enqueueMessage() {
-       const messageBody = \`MSG_\${++messageCounter}\`;
+       const messageBody = ${messageBody};
 
        try {
-         const response = await fetch('/', {
+         const response = await fetch('${basePath}/', {
            method: 'POST',
            body: messageBody
          });
 
          if (response.ok) {
            console.log('Enqueued:', messageBody);
-         }
+         } else if (response.status === 429) {
+           console.warn(\`Rate limited, retry in \${response.headers.get('Retry-After')}s\`);
+         }${rejectedWarning}
        } catch (error) {
          console.error('Failed to enqueue:', error);
        }
      }
 
+     // Enqueue N messages with one POST /batch, which the Worker sends with sendBatch
+     async function burstMessages() {
+       const input = document.getElementById('burst-count');
+       const count = Math.min(Math.max(parseInt(input.value, 10) || 1, 1), 1000);
+       // Always use { body } entries, so a message with its own body field isn't unwrapped
+       const entries = Array.from({ length: count }, () => ({ body: ${nextMessage} }));
+
+       try {
+         const response = await fetch('${basePath}/batch', {
+           method: 'POST',
+           headers: { 'Content-Type': 'application/json' },
+           body: JSON.stringify(entries)
+         });
+
+         if (response.ok) {
+           const { chunks } = await response.json();
+           console.log(\`Enqueued \${count} messages in \${chunks} sendBatch call(s)\`);
+         } else if (response.status === 429) {
+           console.warn(\`Rate limited, retry in \${response.headers.get('Retry-After')}s\`);
+         } else {
+           const { error } = await response.json();
+           console.warn('Burst rejected:', error);
+         }
+       } catch (error) {
+         console.error('Failed to enqueue burst:', error);
+       }
+     }
+
      // Reset demo
      async function resetDemo() {
        try {
          // Clear events in Durable Object
-         await fetch('/events', { method: 'DELETE' });
+         await fetch('${basePath}/events', { method: 'DELETE' });
 
          // Reset local state
          messageCounter = 0;
          currentQueue = [];
-         lastEventCount = 0;
+         lastEventId = 0;
          lastLogEventCount = 0;
          updatePending = false;
          activeBatch = null;
          lastRenderedBatchState = null;
 
          // Clear UI
-         updateStats({ enqueued: 0, processed: 0, retried: 0 });
+         updateStats({ enqueued: 0, processed: 0, retried: 0, deadLettered: 0 });
+         updateDeadLetterQueue([]);
          document.getElementById('queue-messages').innerHTML = '';
          document.getElementById('queue-count').textContent = '0';
          document.getElementById('event-log').innerHTML = '<div class="idle-state" style="padding: 16px;">No events yet...</div>';
@@ -860,20 +2170,47 @@ export function generateDashboardHTML(): string {
        document.getElementById('stat-enqueued').textContent = stats.enqueued;
        document.getElementById('stat-processed').textContent = stats.processed;
        document.getElementById('stat-retried').textContent = stats.retried;
+
+       const deadLettered = document.getElementById('stat-dead-lettered');
+       if (deadLettered) deadLettered.textContent = stats.deadLettered;
      }
 
      // Calculate stats from events
      function calculateStats(events) {
        return {
-         enqueued: events.filter(e => e.phase === 'pending').length,
+         // A burst is one enqueue_batch event covering messageCount messages
+         enqueued: events
+           .filter(e => e.phase === 'pending')
+           .reduce((total, e) => total + (e.messageCount || 1), 0),
          processed: events.filter(e => e.event === 'batch_complete').length,
-         retried: events.filter(e => e.phase === 'retry').length
+         retried: events.filter(e => e.phase === 'retry').length,
+         deadLettered: events.filter(e => e.phase === 'dead-lettered').length
        };
      }
 
+     // Update dead-letter lane (only rendered when a DLQ is configured)
+     function updateDeadLetterQueue(events) {
+       const container = document.getElementById('dead-letter-messages');
+       if (!container) return;
+
+       const deadLettered = events.filter(e => e.phase === 'dead-lettered');
+       document.getElementById('dead-letter-count').textContent = deadLettered.length;
+
+       container.innerHTML = deadLettered.slice(-4).reverse().map(msg => \`
+         <div class="queue-message">
+           <span class="bullet"></span>
+           <span>\${msg.body || msg.messageId}</span>
+         </div>
+       \`).join('');
+     }
+
      // Update queue display
      function updateQueue(events) {
-       const enqueuedMessages = events.filter(e => e.event === 'enqueue');
+       const enqueuedMessages = events.flatMap(e => {
+         if (e.event === 'enqueue') return [e];
+         if (e.event === 'enqueue_batch') return e.messageIds.map(messageId => ({ messageId }));
+         return [];
+       });
        const deliveredEvents = events.filter(e => e.event === 'batch_delivered');
 
        // Calculate total messages delivered to batches (picked up from queue)
@@ -886,7 +2223,7 @@ export function generateDashboardHTML(): string {
        // Show the ones that haven't been delivered yet (still waiting)
        const queueMessages = enqueuedMessages
          .slice(totalDelivered)  // Skip the ones already picked up
-         .slice(-4);             // Show last 4 waiting
+         .slice(-${maxBatchSize});             // Show up to one batch waiting
 
        const queueContainer = document.getElementById('queue-messages');
        const queueCount = document.getElementById('queue-count');
@@ -911,7 +2248,7 @@ export function generateDashboardHTML(): string {
        const consumerContent = document.getElementById('consumer-content');
 
        const batchEvents = events.filter(e =>
-         ['batch_delivered', 'batch_processing', 'batch_complete', 'batch_failed'].includes(e.event)
+         ['batch_delivered', 'batch_processing', 'batch_complete', 'batch_failed', 'message_acked', 'message_retried'].includes(e.event)
        );
 
        // Sort batch events chronologically to handle SSE race conditions
@@ -925,12 +2262,16 @@ export function generateDashboardHTML(): string {
            currentBatch = {
              batchId: event.batchId,
              status: 'delivered',
-             data: event
+             data: event,
+             outcomes: []
            };
          } else if (event.event === 'batch_processing' && currentBatch?.batchId === event.batchId) {
            currentBatch.status = 'processing';
+         } else if (['message_acked', 'message_retried'].includes(event.event) && currentBatch?.batchId === event.batchId) {
+           currentBatch.outcomes.push(event);
          } else if (event.event === 'batch_complete' && currentBatch?.batchId === event.batchId) {
-           currentBatch = null; // Batch finished, clear state
+           // Per-message batches stay on screen so each outcome is visible; whole-batch ones clear
+           currentBatch = currentBatch.outcomes.length > 0 ? { ...currentBatch, status: 'complete' } : null;
          } else if (event.event === 'batch_failed' && currentBatch?.batchId === event.batchId) {
            currentBatch.status = 'failed';
          }
@@ -938,7 +2279,7 @@ export function generateDashboardHTML(): string {
 
        // Create state signature for comparison
        const stateSignature = currentBatch
-         ? \`\${currentBatch.batchId}-\${currentBatch.status}\`
+         ? \`\${currentBatch.batchId}-\${currentBatch.status}-\${currentBatch.outcomes.length}\`
          : 'idle';
 
        // Only re-render if state actually changed
@@ -962,7 +2303,11 @@ export function generateDashboardHTML(): string {
        const isRetryBatch = currentBatch.data.isRetry || false;
        const attempts = currentBatch.data.maxAttempts || 1;
 
-       if (currentBatch.status === 'failed') {
+       if (currentBatch.status === 'complete') {
+         const retried = currentBatch.outcomes.filter(o => o.event === 'message_retried').length;
+         displayStatus = retried > 0 ? 'retry' : 'acked';
+         statusLabel = \`complete <span style="color: #737373; font-size: 9px;">(\${currentBatch.outcomes.length - retried} acked, \${retried} retried)</span>\`;
+       } else if (currentBatch.status === 'failed') {
          displayStatus = 'retry';
          statusLabel = 'failed';
        } else if (isRetryBatch && currentBatch.status === 'delivered') {
@@ -981,11 +2326,25 @@ export function generateDashboardHTML(): string {
              <span class="batch-count">\${currentBatch.data.messageCount || 0} msgs</span>
            </div>
            <div class="batch-id">\${currentBatch.batchId || 'unknown'}</div>
+           \${renderOutcomes(currentBatch.outcomes)}
            \${currentBatch.status === 'processing' ? '<div class="progress-bar"><div class="progress-fill"></div></div>' : ''}
          </div>
        \`;
      }
 
+     // Per-message acks and retries within a batch
+     function renderOutcomes(outcomes) {
+       if (outcomes.length === 0) return '';
+
+       return \`<div class="batch-messages">\${outcomes.map(outcome => \`
+         <div class="queue-message outcome \${outcome.phase}">
+           <span class="bullet"></span>
+           <span>\${outcome.messageId}</span>
+           <span class="outcome-label">\${outcome.event === 'message_acked' ? 'acked' : \`retry in \${outcome.delaySeconds}s\`}</span>
+         </div>
+       \`).join('')}</div>\`;
+     }
+
      // Format time ago
      function timeAgo(timestamp) {
        const seconds = Math.floor((Date.now() - timestamp) / 1000);
@@ -1019,6 +2378,7 @@ export function generateDashboardHTML(): string {
 
        logContainer.innerHTML = recentEvents.map(event => {
          const data = { ...event };
+         delete data.id;
          delete data.timestamp;
          delete data.event;
          delete data.phase;
@@ -1054,18 +2414,20 @@ export function generateDashboardHTML(): string {
      // Fetch and update UI
      async function fetchAndUpdate() {
        try {
-         const response = await fetch('/events');
+         const response = await fetch('${basePath}/events?limit=100');
          if (!response.ok) throw new Error('Failed to fetch events');
 
-         const events = await response.json();
+         const { events } = await response.json();
+         const latestId = events.length > 0 ? events[events.length - 1].id : 0;
 
          // Only update if new events
-         if (events.length !== lastEventCount) {
-           lastEventCount = events.length;
+         if (latestId !== lastEventId) {
+           lastEventId = latestId;
 
            const stats = calculateStats(events);
            updateStats(stats);
            updateQueue(events);
+           updateDeadLetterQueue(events);
            updateConsumer(events);
            updateEventLog(events);
          }
@@ -1076,7 +2438,7 @@ export function generateDashboardHTML(): string {
 
      // Connect to SSE stream for real-time updates
      function connectSSE() {
-       const eventSource = new EventSource('/stream');
+       const eventSource = new EventSource('${basePath}/stream');
 
        eventSource.addEventListener('message', (e) => {
          // Skip initial connection message
@@ -1090,7 +2452,7 @@ export function generateDashboardHTML(): string {
 
            // Priority events: batch state changes should update immediately
            // This ensures users always see processing states, not instant completion
-           const isPriorityEvent = ['batch_delivered', 'batch_processing', 'batch_complete', 'batch_failed'].includes(event.event);
+           const isPriorityEvent = ['batch_delivered', 'batch_processing', 'batch_complete', 'batch_failed', 'message_acked', 'message_retried', 'dead_lettered'].includes(event.event);
 
            if (isPriorityEvent) {
              // Cancel any pending batched update and update immediately
@@ -1119,6 +2481,13 @@ export function generateDashboardHTML(): string {
        });
 
        eventSource.addEventListener('error', (error) => {
+         // EventSource retries dropped connections itself, but gives up on error
+         // responses such as the 503 sent when the store is at its connection limit
+         if (eventSource.readyState === EventSource.CLOSED) {
+           console.log('SSE connection closed, reconnecting in 10s', error);
+           setTimeout(connectSSE, 10000);
+           return;
+         }
          console.log('SSE connection error, will auto-reconnect', error);
        });
 
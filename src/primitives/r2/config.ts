@@ -0,0 +1,96 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface R2Config {
+  bucketName: string;
+  bindingName: string;
+}
+
+export async function patchWranglerConfigForR2(
+  configPath: string,
+  config: R2Config
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForR2(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForR2(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForR2(
+  configPath: string,
+  content: string,
+  config: R2Config
+): Promise<boolean> {
+  try {
+    const { bucketName, bindingName } = config;
+
+    // Check if bucket already exists
+    if (content.includes(`bucket_name = "${bucketName}"`)) {
+      logger.warn(`R2 bucket "${bucketName}" already exists in config`);
+      return true;
+    }
+
+    const r2Config = `
+# R2 Bucket
+[[r2_buckets]]
+binding = "${bindingName}"
+bucket_name = "${bucketName}"
+`;
+
+    await fs.writeFile(configPath, content + r2Config, 'utf-8');
+    logger.success('Updated wrangler.toml with R2 configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForR2(
+  configPath: string,
+  content: string,
+  config: R2Config
+): Promise<boolean> {
+  try {
+    const { bucketName, bindingName } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if bucket already exists
+    const buckets = parsedConfig.r2_buckets || [];
+    if (buckets.some((b: any) => b.bucket_name === bucketName)) {
+      logger.warn(`R2 bucket "${bucketName}" already exists in config`);
+      return true;
+    }
+
+    const newBucket = {
+      binding: bindingName,
+      bucket_name: bucketName
+    };
+    const edits = jsonc.modify(content, ['r2_buckets'], [...buckets, newBucket], {});
+
+    await fs.writeFile(configPath, jsonc.applyEdits(content, edits), 'utf-8');
+    logger.success('Updated wrangler config with R2 configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
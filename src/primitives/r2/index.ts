@@ -0,0 +1,112 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { execa } from 'execa';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { promptNewR2Project, promptExistingR2Project } from './prompts.js';
+import { patchWranglerConfigForR2 } from './config.js';
+import { generateR2WorkerCode, generateFilesRouteCode } from './templates.js';
+import { patchEnvBindings, patchFetchRoute } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface R2PrimitiveConfig extends PrimitiveConfig {
+  bucketName: string;
+  bindingName: string;
+}
+
+export const R2Primitive: Primitive = {
+  id: 'r2',
+  name: 'R2',
+  description: 'R2 bucket with upload, download and list routes',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<R2PrimitiveConfig | null> {
+    const choices = await promptNewR2Project();
+    return choices;
+  },
+
+  async promptExisting(): Promise<R2PrimitiveConfig | null> {
+    const choices = await promptExistingR2Project();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const r2Config = config as R2PrimitiveConfig;
+    return await patchWranglerConfigForR2(configPath, {
+      bucketName: r2Config.bucketName,
+      bindingName: r2Config.bindingName,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const r2Config = config as R2PrimitiveConfig;
+    const templateOptions = {
+      bucketName: r2Config.bucketName,
+      bindingName: r2Config.bindingName,
+    };
+
+    // Existing project: add files.ts next to the entry file and route to it
+    if (r2Config.entryFilePath) {
+      const filesPath = path.join(path.dirname(r2Config.entryFilePath), 'files.ts');
+      if (await fs.pathExists(filesPath)) {
+        logger.warn('files.ts already exists, skipping');
+      } else {
+        await fs.writeFile(filesPath, generateFilesRouteCode(templateOptions), 'utf-8');
+        logger.success('Created files.ts');
+      }
+
+      await patchEnvBindings(r2Config.entryFilePath, [
+        { name: r2Config.bindingName, type: 'R2Bucket' },
+      ]);
+      await patchFetchRoute(r2Config.entryFilePath, {
+        pathPrefix: '/files',
+        handlerName: 'handleFiles',
+        importPath: './files',
+      });
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate index.ts and files.ts
+    await fs.writeFile(path.join(srcDir, 'index.ts'), generateR2WorkerCode(templateOptions), 'utf-8');
+    await fs.writeFile(path.join(srcDir, 'files.ts'), generateFilesRouteCode(templateOptions), 'utf-8');
+
+    logger.success('Created R2 demo files (index.ts, files.ts)');
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const r2Config = config as R2PrimitiveConfig;
+
+    logger.step(`Creating R2 bucket: ${r2Config.bucketName}...`);
+
+    try {
+      await execa('npx', ['wrangler', 'r2', 'bucket', 'create', r2Config.bucketName], {
+        cwd: projectDir,
+        stdio: 'inherit',
+      });
+      logger.success(`Bucket "${r2Config.bucketName}" created`);
+    } catch (error) {
+      // Bucket might already exist, which is okay
+      logger.warn('Bucket creation failed (it might already exist)');
+      logger.info('Continuing with deployment...');
+    }
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const r2Config = config as R2PrimitiveConfig;
+    return {
+      successMessage: '🎉 Your R2 worker is live!',
+      nextSteps: [
+        'Upload a file: curl -X PUT http://localhost:8787/files/hello.txt --data-binary @README.md',
+        'Download it: curl http://localhost:8787/files/hello.txt',
+        'List objects: curl http://localhost:8787/files',
+      ],
+      setupCommands: [`npx wrangler r2 bucket create ${r2Config.bucketName}`],
+    };
+  },
+};
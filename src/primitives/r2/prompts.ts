@@ -0,0 +1,80 @@
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export interface NewR2ProjectChoices {
+  projectName: string;
+  bucketName: string;
+  bindingName: string;
+}
+
+export interface ExistingR2ProjectChoices {
+  bucketName: string;
+  bindingName: string;
+}
+
+export async function promptNewR2Project(): Promise<NewR2ProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with R2!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-r2-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-r2-worker)',
+    },
+    {
+      type: 'text',
+      name: 'bucketName',
+      message: 'Bucket name?',
+      initial: 'demo-bucket',
+      validate: (value: string) =>
+        /^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/.test(value) ||
+        'Must be 3-63 lowercase letters, numbers or hyphens (e.g., demo-bucket)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'BUCKET',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., BUCKET)',
+    },
+  ]);
+
+  if (!response.projectName) {
+    return null;
+  }
+
+  return response as NewR2ProjectChoices;
+}
+
+export async function promptExistingR2Project(): Promise<ExistingR2ProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'bucketName',
+      message: 'Bucket name?',
+      initial: 'demo-bucket',
+      validate: (value: string) =>
+        /^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/.test(value) ||
+        'Must be 3-63 lowercase letters, numbers or hyphens (e.g., demo-bucket)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'BUCKET',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., BUCKET)',
+    },
+  ]);
+
+  if (!response.bindingName) {
+    return null;
+  }
+
+  return response as ExistingR2ProjectChoices;
+}
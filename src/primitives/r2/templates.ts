@@ -0,0 +1,164 @@
+// R2 template interfaces and generators
+
+export interface R2TemplateOptions {
+  bucketName: string;
+  bindingName: string;
+}
+
+export function generateR2WorkerCode(options: R2TemplateOptions): string {
+  return `// Cloudflare R2 - object storage demo
+// The /files routes live in files.ts
+
+import { handleFiles } from "./files";
+
+interface Env {
+  ${options.bindingName}: R2Bucket;
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith("/files")) {
+      return handleFiles(request, env);
+    }
+
+    return new Response("R2 Demo\\n\\nTry GET /files or PUT /files/hello.txt", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateFilesRouteCode(options: R2TemplateOptions): string {
+  return `// Streaming object routes for the R2 bucket (${options.bucketName})
+// GET    /files                 → list objects (?prefix=&cursor=)
+// GET    /files/:key            → download an object (streamed)
+// PUT    /files/:key            → upload an object (request body is streamed)
+// DELETE /files/:key            → delete an object
+//
+// Multipart upload, for objects too large for a single PUT:
+// POST   /files/:key?action=mpu-create                               → { uploadId }
+// PUT    /files/:key?action=mpu-uploadpart&uploadId=&partNumber=     → { partNumber, etag }
+// POST   /files/:key?action=mpu-complete&uploadId=   { parts: [...] } → { key, etag }
+// DELETE /files/:key?action=mpu-abort&uploadId=
+
+export interface FilesEnv {
+  ${options.bindingName}: R2Bucket;
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export async function handleFiles(request: Request, env: FilesEnv): Promise<Response> {
+  const url = new URL(request.url);
+  const bucket = env.${options.bindingName};
+  const key = decodeURIComponent(url.pathname.replace(/^\\/files\\/?/, ""));
+  const action = url.searchParams.get("action");
+
+  // GET /files - List objects
+  if (!key) {
+    if (request.method !== "GET") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    const listing = await bucket.list({
+      prefix: url.searchParams.get("prefix") ?? undefined,
+      cursor: url.searchParams.get("cursor") ?? undefined,
+      limit: 100,
+    });
+
+    return json({
+      objects: listing.objects.map((object) => ({
+        key: object.key,
+        size: object.size,
+        uploaded: object.uploaded,
+      })),
+      cursor: listing.truncated ? listing.cursor : null,
+    });
+  }
+
+  if (action) {
+    return handleMultipart(request, bucket, key, action, url.searchParams);
+  }
+
+  // GET /files/:key - Stream an object back to the client
+  if (request.method === "GET") {
+    const object = await bucket.get(key);
+    if (!object) {
+      return json({ error: "Not found" }, 404);
+    }
+
+    const headers = new Headers();
+    object.writeHttpMetadata(headers);
+    headers.set("etag", object.httpEtag);
+    return new Response(object.body, { headers });
+  }
+
+  // PUT /files/:key - Stream the request body into the bucket
+  if (request.method === "PUT") {
+    const object = await bucket.put(key, request.body, {
+      httpMetadata: request.headers,
+    });
+    return json({ key: object.key, size: object.size, etag: object.httpEtag }, 201);
+  }
+
+  // DELETE /files/:key - Delete an object
+  if (request.method === "DELETE") {
+    await bucket.delete(key);
+    return json({ key, deleted: true });
+  }
+
+  return json({ error: "Method not allowed" }, 405);
+}
+
+async function handleMultipart(
+  request: Request,
+  bucket: R2Bucket,
+  key: string,
+  action: string,
+  params: URLSearchParams
+): Promise<Response> {
+  if (request.method === "POST" && action === "mpu-create") {
+    const upload = await bucket.createMultipartUpload(key, {
+      httpMetadata: request.headers,
+    });
+    return json({ key: upload.key, uploadId: upload.uploadId });
+  }
+
+  const uploadId = params.get("uploadId");
+  if (!uploadId) {
+    return json({ error: "Missing ?uploadId" }, 400);
+  }
+  const upload = bucket.resumeMultipartUpload(key, uploadId);
+
+  if (request.method === "PUT" && action === "mpu-uploadpart") {
+    const partNumber = Number(params.get("partNumber"));
+    if (!partNumber || !request.body) {
+      return json({ error: "Missing ?partNumber or request body" }, 400);
+    }
+
+    const part = await upload.uploadPart(partNumber, request.body);
+    return json(part);
+  }
+
+  if (request.method === "POST" && action === "mpu-complete") {
+    const { parts } = await request.json<{ parts: R2UploadedPart[] }>();
+    const object = await upload.complete(parts);
+    return json({ key: object.key, etag: object.httpEtag });
+  }
+
+  if (request.method === "DELETE" && action === "mpu-abort") {
+    await upload.abort();
+    return json({ key, uploadId, aborted: true });
+  }
+
+  return json({ error: \`Unknown action: \${action}\` }, 400);
+}
+`;
+}
@@ -0,0 +1,102 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface RateLimitConfig {
+  bindingName: string;
+  namespaceId: string;
+  limit: number;
+  period: number;
+}
+
+export async function patchWranglerConfigForRateLimit(
+  configPath: string,
+  config: RateLimitConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForRateLimit(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForRateLimit(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForRateLimit(
+  configPath: string,
+  content: string,
+  config: RateLimitConfig
+): Promise<boolean> {
+  try {
+    const { bindingName, namespaceId, limit, period } = config;
+
+    // Check if binding already exists
+    if (new RegExp(`\\[\\[ratelimits\\]\\]\\s*name\\s*=\\s*"${bindingName}"`).test(content)) {
+      logger.warn(`Rate limit binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    // Top-level ratelimits replaces [[unsafe.bindings]] with type = "ratelimit"
+    const updatedContent = content + `
+# Rate Limiting (${limit} requests per ${period}s per key)
+[[ratelimits]]
+name = "${bindingName}"
+namespace_id = "${namespaceId}"
+simple = { limit = ${limit}, period = ${period} }
+`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with rate limit binding');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForRateLimit(
+  configPath: string,
+  content: string,
+  config: RateLimitConfig
+): Promise<boolean> {
+  try {
+    const { bindingName, namespaceId, limit, period } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if binding already exists
+    const ratelimits = parsedConfig.ratelimits || [];
+    if (ratelimits.some((r: any) => r.name === bindingName)) {
+      logger.warn(`Rate limit binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    const newRateLimit = {
+      name: bindingName,
+      namespace_id: namespaceId,
+      simple: { limit, period }
+    };
+    const edits = jsonc.modify(content, ['ratelimits'], [...ratelimits, newRateLimit], {});
+    const updatedContent = jsonc.applyEdits(content, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with rate limit binding');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
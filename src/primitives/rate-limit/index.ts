@@ -0,0 +1,156 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { QueuesPrimitive, QueuesPrimitiveConfig } from '../queues/index.js';
+import { RateLimitedRoutes, promptNewRateLimitProject, promptExistingRateLimitProject } from './prompts.js';
+import { patchWranglerConfigForRateLimit } from './config.js';
+import { generateRateLimitWorkerCode, generateRateLimitMiddlewareCode } from './templates.js';
+import { patchEnvBindings, patchHandlerStatements } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface RateLimitPrimitiveConfig extends PrimitiveConfig {
+  bindingName: string;
+  namespaceId: string;
+  limit: number;
+  period: number;
+  protectQueue?: boolean; // New projects only: rate limit the Queues dashboard producer
+  protectedRoutes?: RateLimitedRoutes; // Existing projects only, defaults to 'post'
+  queueName?: string;
+  queueBindingName?: string;
+}
+
+// New projects protecting a queue are generated by QueuesPrimitive, with the check in its producer route
+function getQueuesConfig(config: RateLimitPrimitiveConfig): QueuesPrimitiveConfig {
+  return {
+    projectName: config.projectName ?? '',
+    queueName: config.queueName!,
+    bindingName: config.queueBindingName!,
+    rateLimit: { bindingName: config.bindingName },
+  };
+}
+
+function usesQueuesDashboard(config: RateLimitPrimitiveConfig): boolean {
+  return !!config.protectQueue && !config.entryFilePath && !!config.queueName;
+}
+
+export const RateLimitPrimitive: Primitive = {
+  id: 'rate-limit',
+  name: 'Rate Limiting',
+  description: 'Rate limiting binding with fetch middleware that returns 429 + Retry-After',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<RateLimitPrimitiveConfig | null> {
+    const choices = await promptNewRateLimitProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<RateLimitPrimitiveConfig | null> {
+    const choices = await promptExistingRateLimitProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const rateLimitConfig = config as RateLimitPrimitiveConfig;
+
+    if (usesQueuesDashboard(rateLimitConfig) && !(await QueuesPrimitive.patchConfig!(configPath, getQueuesConfig(rateLimitConfig)))) {
+      return false;
+    }
+
+    return await patchWranglerConfigForRateLimit(configPath, {
+      bindingName: rateLimitConfig.bindingName,
+      namespaceId: rateLimitConfig.namespaceId,
+      limit: rateLimitConfig.limit,
+      period: rateLimitConfig.period,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const rateLimitConfig = config as RateLimitPrimitiveConfig;
+    const templateOptions = {
+      bindingName: rateLimitConfig.bindingName,
+      limit: rateLimitConfig.limit,
+      period: rateLimitConfig.period,
+    };
+
+    // Existing project: add rate-limit.ts next to the entry file and check it first in fetch.
+    // Like the new-project producer check, only POSTs count unless every route was chosen
+    if (rateLimitConfig.entryFilePath) {
+      const matchOption = (rateLimitConfig.protectedRoutes ?? 'post') === 'post'
+        ? ', {\n  match: (r) => r.method === "POST",\n}'
+        : '';
+      const middlewarePath = path.join(path.dirname(rateLimitConfig.entryFilePath), 'rate-limit.ts');
+      if (await fs.pathExists(middlewarePath)) {
+        logger.warn('rate-limit.ts already exists, skipping');
+      } else {
+        await fs.writeFile(middlewarePath, generateRateLimitMiddlewareCode(templateOptions), 'utf-8');
+        logger.success('Created rate-limit.ts');
+      }
+
+      await patchEnvBindings(rateLimitConfig.entryFilePath, [
+        { name: rateLimitConfig.bindingName, type: 'RateLimit' },
+      ]);
+      await patchHandlerStatements(rateLimitConfig.entryFilePath, {
+        name: 'fetch',
+        statements: ([request, env]) =>
+          `const limited = await checkRateLimit(${request}, ${env}.${rateLimitConfig.bindingName}${matchOption});\nif (limited) {\n  return limited;\n}`,
+        defaultParameterNames: ['request', 'env'],
+        namedImports: ['checkRateLimit'],
+        importPath: './rate-limit',
+      });
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate the entry file (Queues dashboard or plain demo) and rate-limit.ts
+    if (usesQueuesDashboard(rateLimitConfig)) {
+      await QueuesPrimitive.generateFiles(projectDir, getQueuesConfig(rateLimitConfig));
+    } else {
+      await fs.writeFile(
+        path.join(srcDir, 'index.ts'),
+        generateRateLimitWorkerCode(templateOptions),
+        'utf-8'
+      );
+    }
+    await fs.writeFile(path.join(srcDir, 'rate-limit.ts'), generateRateLimitMiddlewareCode(templateOptions), 'utf-8');
+
+    logger.success('Created rate-limit.ts');
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const rateLimitConfig = config as RateLimitPrimitiveConfig;
+
+    // Rate limit namespaces need no setup; only the dashboard queue needs to exist first
+    if (usesQueuesDashboard(rateLimitConfig)) {
+      await QueuesPrimitive.preDeploySteps!(projectDir, getQueuesConfig(rateLimitConfig));
+    }
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const rateLimitConfig = config as RateLimitPrimitiveConfig;
+    const { limit, period } = rateLimitConfig;
+    const postOnly = !!rateLimitConfig.entryFilePath && (rateLimitConfig.protectedRoutes ?? 'post') === 'post';
+    const nextSteps = usesQueuesDashboard(rateLimitConfig)
+      ? [
+          'Open http://localhost:8787 and enqueue messages quickly',
+          `After ${limit} enqueues in ${period}s the producer answers 429 with Retry-After`,
+        ]
+      : [
+          `Hammer it: for i in $(seq ${limit + 5}); do curl -s${postOnly ? ' -X POST' : ''} -o /dev/null -w "%{http_code}\\n" http://localhost:8787; done`,
+          `${postOnly ? 'POST requests' : 'Requests'} past ${limit} in ${period}s get 429 with a Retry-After header`,
+        ];
+
+    return {
+      successMessage: `🎉 Your Worker is rate limited to ${limit} requests per ${period}s!`,
+      nextSteps,
+      setupCommands: usesQueuesDashboard(rateLimitConfig)
+        ? [`npx wrangler queues create ${rateLimitConfig.queueName}`]
+        : undefined,
+    };
+  },
+};
@@ -0,0 +1,159 @@
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export interface NewRateLimitProjectChoices {
+  projectName: string;
+  bindingName: string;
+  namespaceId: string;
+  limit: number;
+  period: number;
+  protectQueue: boolean;
+  queueName?: string;
+  queueBindingName?: string;
+}
+
+export interface ExistingRateLimitProjectChoices {
+  bindingName: string;
+  namespaceId: string;
+  limit: number;
+  period: number;
+  protectedRoutes: RateLimitedRoutes;
+}
+
+// Which requests the existing Worker's fetch handler counts; limiting every route
+// would also throttle pages like a dashboard that refetch on every update
+export type RateLimitedRoutes = 'post' | 'all';
+
+// The binding only supports 10 or 60 second windows
+const PERIOD_CHOICES = [
+  { title: '60 seconds', value: 60 },
+  { title: '10 seconds', value: 10 },
+];
+
+export async function promptNewRateLimitProject(): Promise<NewRateLimitProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with rate limiting!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-rate-limited-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-rate-limited-worker)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'RATE_LIMITER',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., RATE_LIMITER)',
+    },
+    {
+      type: 'text',
+      name: 'namespaceId',
+      message: 'Namespace ID? (a positive integer, unique per account)',
+      initial: '1001',
+      validate: (value: string) => /^[1-9][0-9]*$/.test(value) || 'Must be a positive integer (e.g., 1001)',
+    },
+    {
+      type: 'number',
+      name: 'limit',
+      message: 'Requests allowed per period?',
+      initial: 100,
+      min: 1,
+    },
+    {
+      type: 'select',
+      name: 'period',
+      message: 'Period?',
+      choices: PERIOD_CHOICES,
+    },
+    {
+      type: 'confirm',
+      name: 'protectQueue',
+      message: 'Protect a Queues producer route (includes the Queues dashboard)?',
+      initial: false,
+    },
+    {
+      type: (prev: boolean) => (prev ? 'text' : null),
+      name: 'queueName',
+      message: 'Queue name?',
+      initial: 'demo-queue',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-queue)',
+    },
+    {
+      type: (prev: string) => (prev ? 'text' : null),
+      name: 'queueBindingName',
+      message: 'Queue binding name?',
+      initial: 'DEMO_QUEUE',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., DEMO_QUEUE)',
+    },
+  ]);
+
+  if (!response.projectName || !response.period || response.protectQueue === undefined) {
+    return null;
+  }
+
+  return response as NewRateLimitProjectChoices;
+}
+
+export async function promptExistingRateLimitProject(): Promise<ExistingRateLimitProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'RATE_LIMITER',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., RATE_LIMITER)',
+    },
+    {
+      type: 'text',
+      name: 'namespaceId',
+      message: 'Namespace ID? (a positive integer, unique per account)',
+      initial: '1001',
+      validate: (value: string) => /^[1-9][0-9]*$/.test(value) || 'Must be a positive integer (e.g., 1001)',
+    },
+    {
+      type: 'number',
+      name: 'limit',
+      message: 'Requests allowed per period?',
+      initial: 100,
+      min: 1,
+    },
+    {
+      type: 'select',
+      name: 'period',
+      message: 'Period?',
+      choices: PERIOD_CHOICES,
+    },
+    {
+      type: 'select',
+      name: 'protectedRoutes',
+      message: 'Which requests should be rate limited?',
+      choices: [
+        {
+          title: 'POST requests only',
+          description: 'Producer routes such as queue enqueues; GET pages and streams stay unlimited',
+          value: 'post',
+        },
+        {
+          title: 'All requests',
+          value: 'all',
+        },
+      ],
+      initial: 0,
+    },
+  ]);
+
+  if (!response.bindingName || !response.period || !response.protectedRoutes) {
+    return null;
+  }
+
+  return response as ExistingRateLimitProjectChoices;
+}
@@ -0,0 +1,101 @@
+// Rate limiting template interfaces and generators
+
+export interface RateLimitTemplateOptions {
+  bindingName: string;
+  limit: number;
+  period: number;
+}
+
+export function generateRateLimitWorkerCode(options: RateLimitTemplateOptions): string {
+  const { bindingName, limit, period } = options;
+
+  return `// Cloudflare Rate Limiting demo
+// The whole fetch handler is wrapped by withRateLimit from rate-limit.ts
+
+import { withRateLimit } from "./rate-limit";
+
+interface Env {
+  ${bindingName}: RateLimit;
+}
+
+async function handleRequest(request: Request, env: Env): Promise<Response> {
+  return new Response("Rate Limiting Demo\\n\\nEach client IP gets ${limit} requests per ${period}s, then 429 with Retry-After", {
+    headers: { "Content-Type": "text/plain" },
+  });
+}
+
+export default {
+  fetch: withRateLimit(handleRequest, (env) => env.${bindingName}),
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateRateLimitMiddlewareCode(options: RateLimitTemplateOptions): string {
+  const { bindingName, limit, period } = options;
+
+  return `// Rate limiting middleware for the Workers Rate Limiting binding
+// ${bindingName} allows ${limit} requests per ${period}s for each key (client IP by default)
+//
+// Counters are kept per Cloudflare location and are eventually consistent, so
+// use this to blunt abuse, not for exact quotas or billing.
+
+export interface RateLimitMiddlewareOptions {
+  // What each client is counted by - defaults to the connecting IP
+  key?: (request: Request) => string;
+  // Only count matching requests - defaults to all of them
+  match?: (request: Request) => boolean;
+}
+
+// Matches the binding's period; the binding doesn't report when a window resets
+const RETRY_AFTER_SECONDS = ${period};
+
+function clientIp(request: Request): string {
+  return request.headers.get("CF-Connecting-IP") ?? "unknown";
+}
+
+/**
+ * Returns a 429 response when the request is over the limit, or null to let it through
+ */
+export async function checkRateLimit(
+  request: Request,
+  limiter: RateLimit,
+  options: RateLimitMiddlewareOptions = {}
+): Promise<Response | null> {
+  if (options.match && !options.match(request)) {
+    return null;
+  }
+
+  const key = (options.key ?? clientIp)(request);
+  const { success } = await limiter.limit({ key });
+  if (success) {
+    return null;
+  }
+
+  return new Response(
+    JSON.stringify({ error: "Too many requests", retryAfter: RETRY_AFTER_SECONDS }),
+    {
+      status: 429,
+      headers: {
+        "Content-Type": "application/json",
+        "Retry-After": String(RETRY_AFTER_SECONDS),
+      },
+    }
+  );
+}
+
+/**
+ * Wrap a fetch handler so every request is checked first:
+ *   export default { fetch: withRateLimit(handleRequest, (env) => env.${bindingName}) }
+ */
+export function withRateLimit<Env>(
+  handler: (request: Request, env: Env, ctx: ExecutionContext) => Response | Promise<Response>,
+  getLimiter: (env: Env) => RateLimit,
+  options: RateLimitMiddlewareOptions = {}
+): (request: Request, env: Env, ctx: ExecutionContext) => Promise<Response> {
+  return async (request, env, ctx) => {
+    const limited = await checkRateLimit(request, getLimiter(env), options);
+    return limited ?? handler(request, env, ctx);
+  };
+}
+`;
+}
@@ -0,0 +1,103 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface VarsConfig {
+  vars: Record<string, string>;
+}
+
+export async function patchWranglerConfigForVars(
+  configPath: string,
+  config: VarsConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForVars(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForVars(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForVars(
+  configPath: string,
+  content: string,
+  config: VarsConfig
+): Promise<boolean> {
+  try {
+    const varsPattern = /^\[vars\][ \t]*\r?\n([\s\S]*?)(?=^\[|(?![\s\S]))/m;
+    const match = content.match(varsPattern);
+
+    // Skip vars already set in the [vars] table
+    const existing = new Set(match ? [...match[1].matchAll(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=/gm)].map((m) => m[1]) : []);
+    const entries = Object.entries(config.vars).filter(([name]) => !existing.has(name));
+
+    if (entries.length === 0) {
+      if (Object.keys(config.vars).length > 0) {
+        logger.warn('Vars already exist in config');
+      }
+      return true;
+    }
+
+    const lines = entries.map(([name, value]) => `${name} = ${JSON.stringify(value)}\n`).join('');
+
+    // Add to the existing [vars] table, or start one
+    const updatedContent = match
+      ? content.replace(/^\[vars\][ \t]*\r?\n/m, (header) => header + lines)
+      : content + `
+# Plain-text vars (use secrets for anything sensitive)
+[vars]
+${lines}`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with vars');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForVars(
+  configPath: string,
+  content: string,
+  config: VarsConfig
+): Promise<boolean> {
+  try {
+    const parsedConfig = jsonc.parse(content);
+
+    // Skip vars already set
+    const existing = parsedConfig.vars || {};
+    const entries = Object.entries(config.vars).filter(([name]) => !(name in existing));
+
+    if (entries.length === 0) {
+      if (Object.keys(config.vars).length > 0) {
+        logger.warn('Vars already exist in config');
+      }
+      return true;
+    }
+
+    const edits = jsonc.modify(content, ['vars'], { ...existing, ...Object.fromEntries(entries) }, {});
+    const updatedContent = jsonc.applyEdits(content, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with vars');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
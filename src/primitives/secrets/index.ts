@@ -0,0 +1,101 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig, SecretDefinition } from '../base.js';
+import { SecretChoice, promptNewSecretsProject, promptExistingSecretsProject } from './prompts.js';
+import { patchWranglerConfigForVars } from './config.js';
+import { generateSecretsWorkerCode } from './templates.js';
+import { putSecrets } from '../../lib/secrets.js';
+import { patchEnvBindings } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface SecretsPrimitiveConfig extends PrimitiveConfig {
+  vars: Record<string, string>;
+  secrets: SecretChoice[]; // Values are only written to .dev.vars and passed to wrangler
+}
+
+export const SecretsPrimitive: Primitive = {
+  id: 'secrets',
+  name: 'Vars & Secrets',
+  description: 'Plain vars in wrangler config, secrets in .dev.vars and wrangler secret put',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<SecretsPrimitiveConfig | null> {
+    const choices = await promptNewSecretsProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<SecretsPrimitiveConfig | null> {
+    const choices = await promptExistingSecretsProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const secretsConfig = config as SecretsPrimitiveConfig;
+    return await patchWranglerConfigForVars(configPath, {
+      vars: secretsConfig.vars,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const secretsConfig = config as SecretsPrimitiveConfig;
+    const varNames = Object.keys(secretsConfig.vars);
+
+    // Existing project: type the vars on Env (secrets are typed by the flow)
+    if (secretsConfig.entryFilePath) {
+      if (varNames.length > 0) {
+        await patchEnvBindings(
+          secretsConfig.entryFilePath,
+          varNames.map((name) => ({ name, type: 'string' }))
+        );
+      }
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate index.ts
+    await fs.writeFile(
+      path.join(srcDir, 'index.ts'),
+      generateSecretsWorkerCode({
+        vars: varNames,
+        secrets: secretsConfig.secrets.map((secret) => secret.name),
+      }),
+      'utf-8'
+    );
+
+    logger.success('Created vars and secrets demo file (index.ts)');
+  },
+
+  getSecrets(config: PrimitiveConfig): SecretDefinition[] {
+    const secretsConfig = config as SecretsPrimitiveConfig;
+    return secretsConfig.secrets.map((secret) => ({
+      name: secret.name,
+      value: secret.value || undefined,
+    }));
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    await putSecrets(projectDir, SecretsPrimitive.getSecrets!(config));
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const secretsConfig = config as SecretsPrimitiveConfig;
+    const names = [...Object.keys(secretsConfig.vars), ...secretsConfig.secrets.map((s) => s.name)];
+    return {
+      successMessage: '🎉 Your Worker has its vars and secrets!',
+      nextSteps: [
+        'Local secret values are in .dev.vars (gitignored) - edit them there',
+        secretsConfig.entryFilePath
+          ? `Read them in your Worker as ${names.map((name) => `env.${name}`).join(', ')}`
+          : 'See what the Worker receives: curl http://localhost:8787',
+      ],
+      // Placeholders only - secret values are never printed
+      setupCommands: secretsConfig.secrets.map((secret) => `npx wrangler secret put ${secret.name}`),
+    };
+  },
+};
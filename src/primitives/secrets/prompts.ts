@@ -0,0 +1,137 @@
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export interface SecretChoice {
+  name: string;
+  value: string; // Blank means "set it later"
+}
+
+export interface NewSecretsProjectChoices {
+  projectName: string;
+  vars: Record<string, string>;
+  secrets: SecretChoice[];
+}
+
+export interface ExistingSecretsProjectChoices {
+  vars: Record<string, string>;
+  secrets: SecretChoice[];
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// "APP_ENV=production, LOG_LEVEL=debug" → { APP_ENV: 'production', LOG_LEVEL: 'debug' }
+function parseVars(value: string): Record<string, string> {
+  return Object.fromEntries(
+    splitList(value).map((entry) => {
+      const index = entry.indexOf('=');
+      return [entry.slice(0, index).trim(), entry.slice(index + 1).trim()];
+    })
+  );
+}
+
+export async function promptNewSecretsProject(): Promise<NewSecretsProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with vars and secrets!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-configured-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-configured-worker)',
+    },
+    {
+      type: 'text',
+      name: 'vars',
+      message: 'Plain vars? (comma-separated KEY=value, stored in wrangler config)',
+      initial: 'APP_ENV=development',
+      validate: (value: string) =>
+        splitList(value).every((entry) => /^[A-Z][A-Z0-9_]*=.*$/.test(entry)) ||
+        'Must be KEY=value pairs (e.g., APP_ENV=development, LOG_LEVEL=debug)',
+    },
+    {
+      type: 'text',
+      name: 'secretNames',
+      message: 'Secret names? (comma-separated, never stored in wrangler config)',
+      initial: 'API_KEY',
+      validate: (value: string) =>
+        splitList(value).every((name) => /^[A-Z][A-Z0-9_]*$/.test(name)) ||
+        'Must be uppercase with underscores (e.g., API_KEY, WEBHOOK_SECRET)',
+    },
+  ]);
+
+  if (!response.projectName || response.secretNames === undefined) {
+    return null;
+  }
+
+  const secrets = await promptSecretValues(splitList(response.secretNames));
+  if (!secrets) {
+    return null;
+  }
+
+  return { projectName: response.projectName, vars: parseVars(response.vars ?? ''), secrets };
+}
+
+export async function promptExistingSecretsProject(): Promise<ExistingSecretsProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'vars',
+      message: 'Plain vars? (comma-separated KEY=value, stored in wrangler config)',
+      initial: 'APP_ENV=development',
+      validate: (value: string) =>
+        splitList(value).every((entry) => /^[A-Z][A-Z0-9_]*=.*$/.test(entry)) ||
+        'Must be KEY=value pairs (e.g., APP_ENV=development, LOG_LEVEL=debug)',
+    },
+    {
+      type: 'text',
+      name: 'secretNames',
+      message: 'Secret names? (comma-separated, never stored in wrangler config)',
+      initial: 'API_KEY',
+      validate: (value: string) =>
+        splitList(value).every((name) => /^[A-Z][A-Z0-9_]*$/.test(name)) ||
+        'Must be uppercase with underscores (e.g., API_KEY, WEBHOOK_SECRET)',
+    },
+  ]);
+
+  if (response.vars === undefined || response.secretNames === undefined) {
+    return null;
+  }
+
+  const secrets = await promptSecretValues(splitList(response.secretNames));
+  if (!secrets) {
+    return null;
+  }
+
+  return { vars: parseVars(response.vars), secrets };
+}
+
+/**
+ * Ask for each secret's value with masked input
+ */
+async function promptSecretValues(names: string[]): Promise<SecretChoice[] | null> {
+  const secrets: SecretChoice[] = [];
+
+  for (const name of names) {
+    const { value } = await coloredPrompts({
+      type: 'password',
+      name: 'value',
+      message: `Value for ${name}? (goes to .dev.vars and wrangler secret put, blank to set later)`,
+    });
+
+    if (value === undefined) {
+      return null;
+    }
+
+    secrets.push({ name, value });
+  }
+
+  return secrets;
+}
@@ -0,0 +1,39 @@
+// Vars and secrets template interfaces and generators
+
+export interface SecretsTemplateOptions {
+  vars: string[];
+  secrets: string[];
+}
+
+export function generateSecretsWorkerCode(options: SecretsTemplateOptions): string {
+  const { vars, secrets } = options;
+  const envBody = [...vars, ...secrets].map((name) => `\n  ${name}: string;`).join('');
+  const varsReport = vars.map((name) => `\n        ${name}: env.${name},`).join('');
+  const secretsReport = secrets
+    .map((name) => `\n        ${name}: env.${name} ? "set" : "missing",`)
+    .join('');
+
+  return `// Cloudflare Workers vars and secrets demo
+// Vars live in wrangler config; secrets live in .dev.vars locally and are set
+// with "wrangler secret put" in production. Both arrive on env as strings.
+
+interface Env {${envBody}
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    // Report which secrets are set - never echo their values
+    const report = {
+      vars: {${varsReport}
+      },
+      secrets: {${secretsReport}
+      },
+    };
+
+    return new Response(JSON.stringify(report, null, 2), {
+      headers: { "Content-Type": "application/json" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
@@ -0,0 +1,100 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface ServiceBindingConfig {
+  bindingName: string;
+  serviceName: string;
+  entrypoint: string;
+}
+
+export async function patchWranglerConfigForServiceBinding(
+  configPath: string,
+  config: ServiceBindingConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForServiceBinding(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForServiceBinding(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForServiceBinding(
+  configPath: string,
+  content: string,
+  config: ServiceBindingConfig
+): Promise<boolean> {
+  try {
+    const { bindingName, serviceName, entrypoint } = config;
+
+    // Check if binding already exists
+    if (new RegExp(`\\[\\[services\\]\\]\\s*binding\\s*=\\s*"${bindingName}"`).test(content)) {
+      logger.warn(`Service binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    const updatedContent = content + `
+# Service binding (RPC to ${serviceName})
+[[services]]
+binding = "${bindingName}"
+service = "${serviceName}"
+entrypoint = "${entrypoint}"
+`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with service binding');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForServiceBinding(
+  configPath: string,
+  content: string,
+  config: ServiceBindingConfig
+): Promise<boolean> {
+  try {
+    const { bindingName, serviceName, entrypoint } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if binding already exists
+    const services = parsedConfig.services || [];
+    if (services.some((s: any) => s.binding === bindingName)) {
+      logger.warn(`Service binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    const newService = {
+      binding: bindingName,
+      service: serviceName,
+      entrypoint
+    };
+    const edits = jsonc.modify(content, ['services'], [...services, newService], {});
+    const updatedContent = jsonc.applyEdits(content, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with service binding');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
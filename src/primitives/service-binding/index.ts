@@ -0,0 +1,162 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { promptExistingServiceBindingProject } from './prompts.js';
+import { patchWranglerConfigForServiceBinding } from './config.js';
+import {
+  generateEntrypointCode,
+  generateServiceClientCode,
+  getEntrypointModuleName,
+  getServiceClientModuleName,
+  getServiceHandlerName,
+  getServiceRoute,
+} from './templates.js';
+import { detectProjectContext, findSiblingWorkers } from '../../lib/detect.js';
+import { patchEnvBindings, patchEntryExport, patchFetchRoute } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface ServiceBindingPrimitiveConfig extends PrimitiveConfig {
+  targetDir: string;
+  targetName: string;
+  targetEntryFilePath: string;
+  targetConfigPath: string;
+  callerConfigPath: string | null;
+  bindingName: string;
+  className: string;
+}
+
+// Relative module specifier from one file's directory to another module (no extension)
+function toImportPath(fromFile: string, toModule: string): string {
+  const relative = path.relative(path.dirname(fromFile), toModule).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+export const ServiceBindingPrimitive: Primitive = {
+  id: 'service-binding',
+  name: 'Service Binding',
+  description: 'Call another Worker in this repo over typed RPC',
+
+  supportsNewProject: false, // Needs a second Worker to bind to
+  supportsExisting: true,
+
+  async promptNew(): Promise<ServiceBindingPrimitiveConfig | null> {
+    logger.warn('Service bindings connect existing Workers. Run this from inside a Worker project.');
+    return null;
+  },
+
+  async promptExisting(): Promise<ServiceBindingPrimitiveConfig | null> {
+    const targets = await findSiblingWorkers(process.cwd());
+    if (targets.length === 0) {
+      logger.warn('No other Workers found in sibling directories or workspace packages');
+      return null;
+    }
+
+    const choices = await promptExistingServiceBindingProject(targets);
+    if (!choices) {
+      return null;
+    }
+
+    const context = await detectProjectContext(process.cwd());
+
+    return {
+      targetDir: choices.target.dir,
+      targetName: choices.target.name,
+      targetEntryFilePath: choices.target.context.entryFilePath!,
+      targetConfigPath: choices.target.context.wranglerConfigPath!,
+      callerConfigPath: context.wranglerConfigPath,
+      bindingName: choices.bindingName,
+      className: choices.className,
+    };
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const serviceConfig = config as ServiceBindingPrimitiveConfig;
+    return await patchWranglerConfigForServiceBinding(configPath, {
+      bindingName: serviceConfig.bindingName,
+      serviceName: serviceConfig.targetName,
+      entrypoint: serviceConfig.className,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const serviceConfig = config as ServiceBindingPrimitiveConfig;
+    const templateOptions = {
+      targetName: serviceConfig.targetName,
+      bindingName: serviceConfig.bindingName,
+      className: serviceConfig.className,
+    };
+
+    // Target Worker: add the entrypoint class next to its entry file and export it
+    const entrypointModule = getEntrypointModuleName(serviceConfig.className);
+    const entrypointPath = path.join(
+      path.dirname(serviceConfig.targetEntryFilePath),
+      `${entrypointModule}.ts`
+    );
+    if (await fs.pathExists(entrypointPath)) {
+      logger.warn(`${serviceConfig.targetName}: ${entrypointModule}.ts already exists, skipping`);
+    } else {
+      await fs.writeFile(entrypointPath, generateEntrypointCode(templateOptions), 'utf-8');
+      logger.success(`Created ${path.relative(projectDir, entrypointPath)}`);
+    }
+    await patchEntryExport(
+      serviceConfig.targetEntryFilePath,
+      [serviceConfig.className],
+      `./${entrypointModule}`
+    );
+
+    // Calling Worker: add a typed client module next to its entry file and route to it
+    const callerDir = serviceConfig.entryFilePath
+      ? path.dirname(serviceConfig.entryFilePath)
+      : path.join(projectDir, 'src');
+    const clientModule = getServiceClientModuleName(serviceConfig.targetName);
+    const clientPath = path.join(callerDir, `${clientModule}.ts`);
+    const entrypointImportPath = toImportPath(clientPath, entrypointPath.replace(/\.ts$/, ''));
+
+    if (await fs.pathExists(clientPath)) {
+      logger.warn(`${clientModule}.ts already exists, skipping`);
+    } else {
+      await fs.ensureDir(callerDir);
+      await fs.writeFile(
+        clientPath,
+        generateServiceClientCode(templateOptions, entrypointImportPath),
+        'utf-8'
+      );
+      logger.success(`Created ${clientModule}.ts`);
+    }
+
+    if (!serviceConfig.entryFilePath) {
+      logger.info(
+        `Route requests to ${getServiceHandlerName(serviceConfig.targetName)}() from ./${clientModule} in your fetch handler`
+      );
+      return;
+    }
+
+    await patchEnvBindings(serviceConfig.entryFilePath, [
+      {
+        name: serviceConfig.bindingName,
+        type: `Service<import("${entrypointImportPath}").${serviceConfig.className}>`,
+      },
+    ]);
+    await patchFetchRoute(serviceConfig.entryFilePath, {
+      pathPrefix: getServiceRoute(serviceConfig.targetName),
+      handlerName: getServiceHandlerName(serviceConfig.targetName),
+      importPath: `./${clientModule}`,
+    });
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const serviceConfig = config as ServiceBindingPrimitiveConfig;
+    const targetPath = path.relative(process.cwd(), serviceConfig.targetDir);
+    const targetConfig = path.relative(process.cwd(), serviceConfig.targetConfigPath);
+    const callerConfig = path.basename(serviceConfig.callerConfigPath ?? 'wrangler.toml');
+    const route = getServiceRoute(serviceConfig.targetName);
+    return {
+      successMessage: `🎉 ${serviceConfig.bindingName} now calls ${serviceConfig.className} in ${serviceConfig.targetName}!`,
+      nextSteps: [
+        `Run both Workers locally: npx wrangler dev -c ${callerConfig} -c ${targetConfig}`,
+        `Call it: curl "http://localhost:8787${route}?from=me"`,
+        `Deploy ${serviceConfig.targetName} before this Worker: (cd ${targetPath} && npx wrangler deploy)`,
+      ],
+    };
+  },
+};
@@ -0,0 +1,74 @@
+import path from 'node:path';
+import prompts from 'prompts';
+import { coloredPrompts } from '../../lib/helpers.js';
+import { WorkerProject } from '../../lib/detect.js';
+
+export interface ExistingServiceBindingProjectChoices {
+  target: WorkerProject;
+  bindingName: string;
+  className: string;
+}
+
+// auth-worker → AuthService
+function toEntrypointName(workerName: string): string {
+  const pascal = workerName
+    .replace(/-worker$/, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return `${pascal}Service`;
+}
+
+// auth-worker → AUTH_WORKER
+function toBindingName(workerName: string): string {
+  return workerName.replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+}
+
+export async function promptExistingServiceBindingProject(
+  targets: WorkerProject[]
+): Promise<ExistingServiceBindingProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'select',
+      name: 'target',
+      message: 'Which Worker should this one call?',
+      choices: targets.map((target) => {
+        const isTypeScript = target.context.entryFilePath?.endsWith('.ts') ?? false;
+        return {
+          title: target.name,
+          description: isTypeScript
+            ? path.relative(process.cwd(), target.dir)
+            : 'Needs a TypeScript entry file (src/index.ts)',
+          value: target,
+          disabled: !isTypeScript,
+        };
+      }),
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: (prev: WorkerProject) => toBindingName(prev.name),
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., AUTH_WORKER)',
+    },
+    {
+      type: 'text',
+      name: 'className',
+      message: 'RPC entrypoint class name (created in the target)?',
+      initial: (_prev: string, values: prompts.Answers<string>) =>
+        toEntrypointName((values.target as WorkerProject).name),
+      validate: (value: string) =>
+        /^[A-Z][A-Za-z0-9]*$/.test(value) || 'Must be PascalCase (e.g., AuthService)',
+    },
+  ]);
+
+  if (!response.target || !response.className) {
+    return null;
+  }
+
+  return response as ExistingServiceBindingProjectChoices;
+}
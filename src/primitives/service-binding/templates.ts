@@ -0,0 +1,96 @@
+// Service binding template interfaces and generators
+
+export interface ServiceBindingTemplateOptions {
+  targetName: string;
+  bindingName: string;
+  className: string;
+}
+
+// AuthService → auth-service
+export function getEntrypointModuleName(className: string): string {
+  return className.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+// auth-worker → auth-worker-client
+export function getServiceClientModuleName(targetName: string): string {
+  return `${targetName}-client`;
+}
+
+// auth-worker → handleAuthWorker
+export function getServiceHandlerName(targetName: string): string {
+  const pascal = targetName
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return `handle${pascal}`;
+}
+
+export function getServiceRoute(targetName: string): string {
+  return `/${targetName}`;
+}
+
+// Written next to the target Worker's entry file
+export function generateEntrypointCode(options: ServiceBindingTemplateOptions): string {
+  const { targetName, className } = options;
+
+  return `// ${className} - RPC entrypoint other Workers call through a service binding
+// Callers bind to it by name and entrypoint:
+//   [[services]]
+//   binding = "..."
+//   service = "${targetName}"
+//   entrypoint = "${className}"
+//
+// Public methods are callable over RPC. Arguments and return values are
+// structured-cloned, so stick to plain data (or RpcTarget subclasses).
+
+import { WorkerEntrypoint } from "cloudflare:workers";
+
+export class ${className} extends WorkerEntrypoint {
+  async ping(from: string): Promise<{ message: string; servedBy: string; at: number }> {
+    return { message: \`pong, \${from}\`, servedBy: "${targetName}", at: Date.now() };
+  }
+
+  async add(a: number, b: number): Promise<number> {
+    return a + b;
+  }
+}
+`;
+}
+
+// Written next to the calling Worker's entry file
+export function generateServiceClientCode(
+  options: ServiceBindingTemplateOptions,
+  entrypointImportPath: string
+): string {
+  const { targetName, bindingName, className } = options;
+  const handlerName = getServiceHandlerName(targetName);
+  const route = getServiceRoute(targetName);
+
+  return `// Calls ${className} in the ${targetName} Worker over its service binding
+// GET ${route}?from=you → ping + add, typed from the entrypoint class
+//
+// The import is type-only: no code from ${targetName} is bundled into this Worker.
+
+import type { ${className} } from "${entrypointImportPath}";
+
+export interface ${className}ClientEnv {
+  ${bindingName}: Service<${className}>;
+}
+
+export async function ${handlerName}(request: Request, env: ${className}ClientEnv): Promise<Response> {
+  const url = new URL(request.url);
+  const from = url.searchParams.get("from") || "anonymous";
+
+  // Method names, arguments and return types all come from ${className}
+  const [pong, sum] = await Promise.all([
+    env.${bindingName}.ping(from),
+    env.${bindingName}.add(2, 3),
+  ]);
+
+  return new Response(JSON.stringify({ pong, sum }), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
+`;
+}
@@ -0,0 +1,113 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface VectorizeConfig {
+  indexName: string;
+  bindingName: string;
+}
+
+// Name of the Workers AI binding in an existing config, if there is one
+export async function getAIBindingName(configPath: string): Promise<string | null> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    if (configPath.endsWith('.toml')) {
+      const match = content.match(/^\[ai\]\s*\n\s*binding\s*=\s*"([^"]+)"/m);
+      return match ? match[1] : null;
+    }
+
+    return jsonc.parse(content).ai?.binding ?? null;
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function patchWranglerConfigForVectorize(
+  configPath: string,
+  config: VectorizeConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForVectorize(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForVectorize(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForVectorize(
+  configPath: string,
+  content: string,
+  config: VectorizeConfig
+): Promise<boolean> {
+  try {
+    const { indexName, bindingName } = config;
+
+    // Check if index already exists
+    if (content.includes(`index_name = "${indexName}"`)) {
+      logger.warn(`Vectorize index "${indexName}" already exists in config`);
+      return true;
+    }
+
+    const updatedContent = content + `
+# Vectorize index
+[[vectorize]]
+binding = "${bindingName}"
+index_name = "${indexName}"
+`;
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with Vectorize configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForVectorize(
+  configPath: string,
+  content: string,
+  config: VectorizeConfig
+): Promise<boolean> {
+  try {
+    const { indexName, bindingName } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if index already exists
+    const indexes = parsedConfig.vectorize || [];
+    if (indexes.some((v: any) => v.index_name === indexName)) {
+      logger.warn(`Vectorize index "${indexName}" already exists in config`);
+      return true;
+    }
+
+    const newIndex = {
+      binding: bindingName,
+      index_name: indexName
+    };
+    const edits = jsonc.modify(content, ['vectorize'], [...indexes, newIndex], {});
+    const updatedContent = jsonc.applyEdits(content, edits);
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with Vectorize configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,165 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { execa } from 'execa';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { AIPrimitive } from '../ai/index.js';
+import {
+  VectorizeMetric,
+  promptNewVectorizeProject,
+  promptExistingVectorizeProject,
+} from './prompts.js';
+import { patchWranglerConfigForVectorize, getAIBindingName } from './config.js';
+import { generateVectorizeWorkerCode, generateVectorsRouteCode } from './templates.js';
+import { detectProjectContext } from '../../lib/detect.js';
+import { patchEnvBindings, patchFetchRoute } from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface VectorizePrimitiveConfig extends PrimitiveConfig {
+  indexName: string;
+  bindingName: string;
+  dimensions: number;
+  metric: VectorizeMetric;
+  useAI: boolean;
+  embeddingModel?: string;
+  aiBindingName?: string;
+}
+
+function getCreateIndexArgs(config: VectorizePrimitiveConfig): string[] {
+  return [
+    'wrangler',
+    'vectorize',
+    'create',
+    config.indexName,
+    `--dimensions=${config.dimensions}`,
+    `--metric=${config.metric}`,
+  ];
+}
+
+export const VectorizePrimitive: Primitive = {
+  id: 'vectorize',
+  name: 'Vectorize',
+  description: 'Vector index with upsert and query routes, optionally fed by Workers AI',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<VectorizePrimitiveConfig | null> {
+    const choices = await promptNewVectorizeProject();
+    if (!choices) return null;
+
+    // New projects get their own AI binding when embeddings are enabled
+    return { ...choices, aiBindingName: choices.useAI ? 'AI' : undefined };
+  },
+
+  async promptExisting(): Promise<VectorizePrimitiveConfig | null> {
+    const context = await detectProjectContext();
+    const aiBindingName = context.wranglerConfigPath
+      ? await getAIBindingName(context.wranglerConfigPath)
+      : null;
+
+    const choices = await promptExistingVectorizeProject(aiBindingName);
+    if (!choices) return null;
+
+    return { ...choices, aiBindingName: choices.useAI ? aiBindingName! : undefined };
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const vectorizeConfig = config as VectorizePrimitiveConfig;
+
+    // Existing projects reuse the AI binding they already have
+    if (vectorizeConfig.useAI && !vectorizeConfig.entryFilePath) {
+      const aiPatched = await AIPrimitive.patchConfig!(configPath, {
+        bindingName: vectorizeConfig.aiBindingName,
+      });
+      if (!aiPatched) return false;
+    }
+
+    return await patchWranglerConfigForVectorize(configPath, {
+      indexName: vectorizeConfig.indexName,
+      bindingName: vectorizeConfig.bindingName,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const vectorizeConfig = config as VectorizePrimitiveConfig;
+    const templateOptions = {
+      indexName: vectorizeConfig.indexName,
+      bindingName: vectorizeConfig.bindingName,
+      dimensions: vectorizeConfig.dimensions,
+      metric: vectorizeConfig.metric,
+      aiBindingName: vectorizeConfig.aiBindingName,
+      embeddingModel: vectorizeConfig.embeddingModel,
+    };
+
+    // Existing project: add vectors.ts next to the entry file and route to it
+    if (vectorizeConfig.entryFilePath) {
+      const vectorsPath = path.join(path.dirname(vectorizeConfig.entryFilePath), 'vectors.ts');
+      if (await fs.pathExists(vectorsPath)) {
+        logger.warn('vectors.ts already exists, skipping');
+      } else {
+        await fs.writeFile(vectorsPath, generateVectorsRouteCode(templateOptions), 'utf-8');
+        logger.success('Created vectors.ts');
+      }
+
+      const bindings = [{ name: vectorizeConfig.bindingName, type: 'Vectorize' }];
+      if (vectorizeConfig.aiBindingName) {
+        bindings.push({ name: vectorizeConfig.aiBindingName, type: 'Ai' });
+      }
+      await patchEnvBindings(vectorizeConfig.entryFilePath, bindings);
+      await patchFetchRoute(vectorizeConfig.entryFilePath, {
+        pathPrefix: '/vectors',
+        handlerName: 'handleVectors',
+        importPath: './vectors',
+      });
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate index.ts and vectors.ts
+    await fs.writeFile(path.join(srcDir, 'index.ts'), generateVectorizeWorkerCode(templateOptions), 'utf-8');
+    await fs.writeFile(path.join(srcDir, 'vectors.ts'), generateVectorsRouteCode(templateOptions), 'utf-8');
+
+    logger.success('Created Vectorize demo files (index.ts, vectors.ts)');
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const vectorizeConfig = config as VectorizePrimitiveConfig;
+
+    logger.step(
+      `Creating Vectorize index: ${vectorizeConfig.indexName} (${vectorizeConfig.dimensions} dimensions, ${vectorizeConfig.metric})...`
+    );
+
+    try {
+      await execa('npx', getCreateIndexArgs(vectorizeConfig), {
+        cwd: projectDir,
+        stdio: 'inherit',
+      });
+      logger.success(`Index "${vectorizeConfig.indexName}" created`);
+    } catch (error) {
+      // Index might already exist, which is okay
+      logger.warn('Index creation failed (it might already exist)');
+      logger.info('Continuing with deployment...');
+    }
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const vectorizeConfig = config as VectorizePrimitiveConfig;
+    return {
+      successMessage: '🎉 Your Vectorize worker is live!',
+      nextSteps: vectorizeConfig.useAI
+        ? [
+            `Add documents: curl -X POST http://localhost:8787/vectors -d '{"documents":[{"id":"1","text":"Queues deliver messages in batches"}]}'`,
+            'Search by meaning: curl "http://localhost:8787/vectors/query?q=how%20are%20messages%20delivered"',
+          ]
+        : [
+            `Upsert: curl -X POST http://localhost:8787/vectors -d '[{"id":"1","values":[...${vectorizeConfig.dimensions} numbers]}]'`,
+            `Query: curl -X POST http://localhost:8787/vectors/query -d '{"vector":[...],"topK":3}'`,
+          ],
+      setupCommands: [`npx ${getCreateIndexArgs(vectorizeConfig).join(' ')}`],
+    };
+  },
+};
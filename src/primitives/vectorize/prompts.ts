@@ -0,0 +1,161 @@
+import prompts from 'prompts';
+import { coloredPrompts } from '../../lib/helpers.js';
+import { AI_EMBEDDING_MODELS } from '../ai/prompts.js';
+
+export type VectorizeMetric = 'cosine' | 'euclidean' | 'dot-product';
+
+export interface NewVectorizeProjectChoices {
+  projectName: string;
+  indexName: string;
+  bindingName: string;
+  useAI: boolean;
+  embeddingModel?: string;
+  dimensions: number;
+  metric: VectorizeMetric;
+}
+
+export interface ExistingVectorizeProjectChoices {
+  indexName: string;
+  bindingName: string;
+  useAI: boolean;
+  embeddingModel?: string;
+  dimensions: number;
+  metric: VectorizeMetric;
+}
+
+const METRIC_CHOICES = [
+  { title: 'Cosine', description: 'Angle between vectors - the usual choice for text embeddings', value: 'cosine' },
+  { title: 'Euclidean', description: 'Straight-line distance', value: 'euclidean' },
+  { title: 'Dot product', description: 'For normalized vectors where magnitude matters', value: 'dot-product' },
+];
+
+// Embedding models fix the dimensions; otherwise ask for them
+function withModelDimensions(response: prompts.Answers<string>): prompts.Answers<string> {
+  const model = AI_EMBEDDING_MODELS.find((m) => m.value === response.embeddingModel);
+  return model ? { ...response, dimensions: model.dimensions } : response;
+}
+
+export async function promptNewVectorizeProject(): Promise<NewVectorizeProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with Vectorize!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-vectorize-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-vectorize-worker)',
+    },
+    {
+      type: 'text',
+      name: 'indexName',
+      message: 'Index name?',
+      initial: 'demo-index',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-index)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'VECTORIZE',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., VECTORIZE)',
+    },
+    {
+      type: 'confirm',
+      name: 'useAI',
+      message: 'Generate embeddings with Workers AI (adds an AI binding)?',
+      initial: true,
+    },
+    {
+      type: (prev: boolean) => (prev ? 'select' : null),
+      name: 'embeddingModel',
+      message: 'Embedding model?',
+      choices: AI_EMBEDDING_MODELS,
+      initial: 0,
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.useAI ? null : 'number'),
+      name: 'dimensions',
+      message: 'Vector dimensions?',
+      initial: 768,
+      validate: (value: number) =>
+        (Number.isInteger(value) && value >= 1 && value <= 1536) || 'Must be between 1 and 1536',
+    },
+    {
+      type: 'select',
+      name: 'metric',
+      message: 'Distance metric?',
+      choices: METRIC_CHOICES,
+      initial: 0,
+    },
+  ]);
+
+  if (!response.projectName || !response.metric) {
+    return null;
+  }
+
+  return withModelDimensions(response) as NewVectorizeProjectChoices;
+}
+
+export async function promptExistingVectorizeProject(
+  aiBindingName: string | null
+): Promise<ExistingVectorizeProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'indexName',
+      message: 'Index name?',
+      initial: 'demo-index',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., demo-index)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: 'VECTORIZE',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., VECTORIZE)',
+    },
+    {
+      // Only offered when the project already has a Workers AI binding
+      type: aiBindingName ? 'confirm' : null,
+      name: 'useAI',
+      message: `Generate embeddings with the existing ${aiBindingName} binding?`,
+      initial: true,
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.useAI ? 'select' : null),
+      name: 'embeddingModel',
+      message: 'Embedding model?',
+      choices: AI_EMBEDDING_MODELS,
+      initial: 0,
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.useAI ? null : 'number'),
+      name: 'dimensions',
+      message: 'Vector dimensions?',
+      initial: 768,
+      validate: (value: number) =>
+        (Number.isInteger(value) && value >= 1 && value <= 1536) || 'Must be between 1 and 1536',
+    },
+    {
+      type: 'select',
+      name: 'metric',
+      message: 'Distance metric?',
+      choices: METRIC_CHOICES,
+      initial: 0,
+    },
+  ]);
+
+  if (!response.metric) {
+    return null;
+  }
+
+  return withModelDimensions({ ...response, useAI: !!response.useAI }) as ExistingVectorizeProjectChoices;
+}
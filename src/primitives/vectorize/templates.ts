@@ -0,0 +1,198 @@
+// Vectorize template interfaces and generators
+
+import { VectorizeMetric } from './prompts.js';
+
+export interface VectorizeTemplateOptions {
+  indexName: string;
+  bindingName: string;
+  dimensions: number;
+  metric: VectorizeMetric;
+  // Set when embeddings come from Workers AI
+  aiBindingName?: string;
+  embeddingModel?: string;
+}
+
+export function generateVectorizeWorkerCode(options: VectorizeTemplateOptions): string {
+  const { bindingName, aiBindingName } = options;
+  const aiBinding = aiBindingName ? `\n  ${aiBindingName}: Ai;` : '';
+  const hint = aiBindingName
+    ? 'POST /vectors with documents, then GET /vectors/query?q=...'
+    : 'POST /vectors with vectors, then POST /vectors/query';
+
+  return `// Cloudflare Vectorize demo
+// The /vectors routes live in vectors.ts
+
+import { handleVectors } from "./vectors";
+
+interface Env {
+  ${bindingName}: Vectorize;${aiBinding}
+}
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith("/vectors")) {
+      return handleVectors(request, env);
+    }
+
+    return new Response("Vectorize Demo\\n\\n${hint}", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateVectorsRouteCode(options: VectorizeTemplateOptions): string {
+  return options.aiBindingName
+    ? generateEmbeddingPipelineCode(options)
+    : generateRawVectorsCode(options);
+}
+
+function generateRawVectorsCode(options: VectorizeTemplateOptions): string {
+  const { indexName, bindingName, dimensions, metric } = options;
+
+  return `// Vectorize routes for index "${indexName}" (${dimensions} dimensions, ${metric})
+// POST /vectors        [{ "id": "a", "values": [...], "metadata": {...} }]  → upsert
+// POST /vectors/query  { "vector": [...], "topK": 5 }                       → nearest matches
+
+export interface VectorsEnv {
+  ${bindingName}: Vectorize;
+}
+
+export const DIMENSIONS = ${dimensions};
+
+export async function handleVectors(request: Request, env: VectorsEnv): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  // POST /vectors - insert or update vectors
+  if (url.pathname === "/vectors") {
+    const vectors = await request.json<VectorizeVector[]>();
+
+    const invalid = vectors.find((v) => !v.id || v.values?.length !== DIMENSIONS);
+    if (invalid) {
+      return Response.json(
+        { error: \`Every vector needs an id and \${DIMENSIONS} values\` },
+        { status: 400 }
+      );
+    }
+
+    // Upserts are applied asynchronously; the mutation id can be used to track them
+    const mutation = await env.${bindingName}.upsert(vectors);
+    return Response.json({ upserted: vectors.length, mutationId: mutation.mutationId }, { status: 202 });
+  }
+
+  // POST /vectors/query - nearest neighbours of a vector
+  if (url.pathname === "/vectors/query") {
+    const { vector, topK = 5 } = await request.json<{ vector: number[]; topK?: number }>();
+
+    if (vector?.length !== DIMENSIONS) {
+      return Response.json({ error: \`"vector" must have \${DIMENSIONS} values\` }, { status: 400 });
+    }
+
+    const { matches } = await env.${bindingName}.query(vector, { topK, returnMetadata: "all" });
+    return Response.json({ matches });
+  }
+
+  return new Response("Not found", { status: 404 });
+}
+`;
+}
+
+function generateEmbeddingPipelineCode(options: VectorizeTemplateOptions): string {
+  const { indexName, bindingName, dimensions, metric, aiBindingName, embeddingModel } = options;
+
+  return `// Vectorize routes for index "${indexName}" (${dimensions} dimensions, ${metric})
+// Text is embedded with Workers AI, upserted, and queried by meaning:
+//
+// POST /vectors               { "documents": [{ "id": "doc-1", "text": "..." }] }  → embed + upsert
+// GET  /vectors/query?q=...&topK=5                                                → embed + nearest matches
+//
+// Handlers only call the Embedder type; pass a stub embedder in tests.
+
+export interface VectorsEnv {
+  ${bindingName}: Vectorize;
+  ${aiBindingName}: Ai;
+}
+
+// Must produce ${dimensions}-dimensional vectors to match the index
+export const EMBEDDING_MODEL = "${embeddingModel}";
+
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+export function createWorkersAiEmbedder(ai: Ai): Embedder {
+  return async (texts) => {
+    const result = (await ai.run(EMBEDDING_MODEL, { text: texts })) as { data?: number[][] };
+    return result.data ?? [];
+  };
+}
+
+interface Document {
+  id?: string;
+  text: string;
+}
+
+// Vector metadata is limited in size, so only a preview of each document is stored
+const METADATA_TEXT_LIMIT = 1000;
+
+export async function handleVectors(
+  request: Request,
+  env: VectorsEnv,
+  embed: Embedder = createWorkersAiEmbedder(env.${aiBindingName})
+): Promise<Response> {
+  const url = new URL(request.url);
+
+  // POST /vectors - embed documents and upsert them
+  if (request.method === "POST" && url.pathname === "/vectors") {
+    const { documents } = await request.json<{ documents: Document[] }>();
+
+    if (!Array.isArray(documents) || documents.some((doc) => !doc.text)) {
+      return Response.json({ error: "Expected { documents: [{ id?, text }] }" }, { status: 400 });
+    }
+
+    const embeddings = await embed(documents.map((doc) => doc.text));
+    const vectors: VectorizeVector[] = documents.map((doc, i) => ({
+      id: doc.id ?? crypto.randomUUID(),
+      values: embeddings[i],
+      metadata: { text: doc.text.slice(0, METADATA_TEXT_LIMIT) },
+    }));
+
+    // Upserts are applied asynchronously; the mutation id can be used to track them
+    const mutation = await env.${bindingName}.upsert(vectors);
+    return Response.json(
+      { upserted: vectors.map((v) => v.id), mutationId: mutation.mutationId },
+      { status: 202 }
+    );
+  }
+
+  // GET /vectors/query?q=... - embed the query text and find the closest documents
+  if (request.method === "GET" && url.pathname === "/vectors/query") {
+    const query = url.searchParams.get("q");
+    const topK = Number(url.searchParams.get("topK") ?? 5);
+
+    if (!query) {
+      return Response.json({ error: "Missing ?q= query text" }, { status: 400 });
+    }
+
+    const [vector] = await embed([query]);
+    const { matches } = await env.${bindingName}.query(vector, { topK, returnMetadata: "all" });
+
+    return Response.json({
+      query,
+      matches: matches.map((match) => ({
+        id: match.id,
+        score: match.score,
+        text: match.metadata?.text,
+      })),
+    });
+  }
+
+  return new Response("Not found", { status: 404 });
+}
+`;
+}
@@ -0,0 +1,134 @@
+import fs from 'fs-extra';
+import * as jsonc from 'jsonc-parser';
+import { logger } from '../../lib/logger.js';
+
+export interface WorkflowConfig {
+  workflowName: string;
+  className: string;
+  bindingName: string;
+  consumerQueueName?: string; // Attach a queue consumer that starts instances
+}
+
+export async function patchWranglerConfigForWorkflow(
+  configPath: string,
+  config: WorkflowConfig
+): Promise<boolean> {
+  try {
+    const content = await fs.readFile(configPath, 'utf-8');
+
+    // Check if it's TOML
+    if (configPath.endsWith('.toml')) {
+      return await patchTomlConfigForWorkflow(configPath, content, config);
+    }
+
+    // Handle JSON/JSONC
+    return await patchJsonConfigForWorkflow(configPath, content, config);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchTomlConfigForWorkflow(
+  configPath: string,
+  content: string,
+  config: WorkflowConfig
+): Promise<boolean> {
+  try {
+    const { workflowName, className, bindingName, consumerQueueName } = config;
+
+    // Check if workflow already exists
+    if (content.includes(`binding = "${bindingName}"`)) {
+      logger.warn(`Workflow binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    let updatedContent = content;
+
+    // 1. Add workflow binding
+    updatedContent += `
+# Workflow
+[[workflows]]
+name = "${workflowName}"
+binding = "${bindingName}"
+class_name = "${className}"
+`;
+
+    // 2. Add queue consumer if not present
+    const consumerPattern = new RegExp(`\\[\\[queues\\.consumers\\]\\]\\s*queue\\s*=\\s*"${consumerQueueName}"`);
+    if (consumerQueueName && !consumerPattern.test(content)) {
+      updatedContent += `
+# Queue consumer that starts ${className} instances
+[[queues.consumers]]
+queue = "${consumerQueueName}"
+`;
+    }
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler.toml with workflow configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch TOML config: ${error.message}`);
+    }
+    return false;
+  }
+}
+
+async function patchJsonConfigForWorkflow(
+  configPath: string,
+  content: string,
+  config: WorkflowConfig
+): Promise<boolean> {
+  try {
+    const { workflowName, className, bindingName, consumerQueueName } = config;
+
+    const parsedConfig = jsonc.parse(content);
+
+    // Check if workflow already exists
+    const workflows = parsedConfig.workflows || [];
+    if (workflows.some((w: any) => w.binding === bindingName)) {
+      logger.warn(`Workflow binding "${bindingName}" already exists in config`);
+      return true;
+    }
+
+    let updatedContent = content;
+
+    // 1. Add workflow binding
+    const newWorkflow = {
+      name: workflowName,
+      binding: bindingName,
+      class_name: className
+    };
+    let edits = jsonc.modify(
+      updatedContent,
+      ['workflows'],
+      [...workflows, newWorkflow],
+      {}
+    );
+    updatedContent = jsonc.applyEdits(updatedContent, edits);
+
+    // 2. Add queue consumer if not present
+    const consumers = parsedConfig.queues?.consumers || [];
+    if (consumerQueueName && !consumers.some((c: any) => c.queue === consumerQueueName)) {
+      edits = jsonc.modify(
+        updatedContent,
+        ['queues', 'consumers'],
+        [...consumers, { queue: consumerQueueName }],
+        {}
+      );
+      updatedContent = jsonc.applyEdits(updatedContent, edits);
+    }
+
+    await fs.writeFile(configPath, updatedContent, 'utf-8');
+    logger.success('Updated wrangler config with workflow configuration');
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(`Failed to patch JSON config: ${error.message}`);
+    }
+    return false;
+  }
+}
@@ -0,0 +1,180 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+import { Primitive, PrimitiveConfig } from '../base.js';
+import { QueuesPrimitive, QueuesPrimitiveConfig } from '../queues/index.js';
+import { promptNewWorkflowProject, promptExistingWorkflowProject } from './prompts.js';
+import { patchWranglerConfigForWorkflow } from './config.js';
+import {
+  WORKFLOW_ROUTE,
+  generateWorkflowWorkerCode,
+  generateWorkflowCode,
+  getWorkflowModuleName,
+  getWorkflowHandlerName,
+  getWorkflowBatchStarterName,
+} from './templates.js';
+import {
+  patchEnvBindings,
+  patchEntryExport,
+  patchFetchRoute,
+  patchHandlerMethod,
+} from '../../lib/ast-patcher.js';
+import { logger } from '../../lib/logger.js';
+
+export interface WorkflowsPrimitiveConfig extends PrimitiveConfig {
+  className: string;
+  bindingName: string;
+  startFromQueue: boolean;
+  queueName?: string;
+  queueBindingName?: string; // New projects only: producer binding for the Queues dashboard
+}
+
+// New projects with a queue are generated by QueuesPrimitive, with the workflow wired into its consumer
+function getQueuesConfig(config: WorkflowsPrimitiveConfig): QueuesPrimitiveConfig {
+  return {
+    projectName: config.projectName ?? '',
+    queueName: config.queueName!,
+    bindingName: config.queueBindingName!,
+    workflow: { className: config.className, bindingName: config.bindingName },
+  };
+}
+
+function usesQueuesDashboard(config: WorkflowsPrimitiveConfig): boolean {
+  return config.startFromQueue && !config.entryFilePath && !!config.queueBindingName;
+}
+
+export const WorkflowsPrimitive: Primitive = {
+  id: 'workflows',
+  name: 'Workflows',
+  description: 'Durable multi-step workflow with start and status routes',
+
+  supportsNewProject: true,
+  supportsExisting: true,
+
+  async promptNew(): Promise<WorkflowsPrimitiveConfig | null> {
+    const choices = await promptNewWorkflowProject();
+    return choices;
+  },
+
+  async promptExisting(): Promise<WorkflowsPrimitiveConfig | null> {
+    const choices = await promptExistingWorkflowProject();
+    return choices;
+  },
+
+  async patchConfig(configPath: string, config: PrimitiveConfig): Promise<boolean> {
+    const workflowConfig = config as WorkflowsPrimitiveConfig;
+    const dashboard = usesQueuesDashboard(workflowConfig);
+
+    if (dashboard && !(await QueuesPrimitive.patchConfig!(configPath, getQueuesConfig(workflowConfig)))) {
+      return false;
+    }
+
+    return await patchWranglerConfigForWorkflow(configPath, {
+      workflowName: getWorkflowModuleName(workflowConfig.className),
+      className: workflowConfig.className,
+      bindingName: workflowConfig.bindingName,
+      // The Queues dashboard config already includes its consumer
+      consumerQueueName: workflowConfig.startFromQueue && !dashboard ? workflowConfig.queueName : undefined,
+    });
+  },
+
+  async generateFiles(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const workflowConfig = config as WorkflowsPrimitiveConfig;
+    const templateOptions = {
+      className: workflowConfig.className,
+      bindingName: workflowConfig.bindingName,
+    };
+    const moduleName = getWorkflowModuleName(workflowConfig.className);
+
+    // Existing project: add the workflow module next to the entry file, export and route to it
+    if (workflowConfig.entryFilePath) {
+      const workflowPath = path.join(path.dirname(workflowConfig.entryFilePath), `${moduleName}.ts`);
+      if (await fs.pathExists(workflowPath)) {
+        logger.warn(`${moduleName}.ts already exists, skipping`);
+      } else {
+        await fs.writeFile(workflowPath, generateWorkflowCode(templateOptions), 'utf-8');
+        logger.success(`Created ${moduleName}.ts`);
+      }
+
+      await patchEnvBindings(workflowConfig.entryFilePath, [
+        {
+          name: workflowConfig.bindingName,
+          type: `Workflow<import("./${moduleName}").${workflowConfig.className}Params>`,
+        },
+      ]);
+      await patchEntryExport(workflowConfig.entryFilePath, [workflowConfig.className], `./${moduleName}`);
+      await patchFetchRoute(workflowConfig.entryFilePath, {
+        pathPrefix: WORKFLOW_ROUTE,
+        handlerName: getWorkflowHandlerName(workflowConfig.className),
+        importPath: `./${moduleName}`,
+      });
+
+      if (workflowConfig.startFromQueue) {
+        const batchStarterName = getWorkflowBatchStarterName(workflowConfig.className);
+        await patchHandlerMethod(workflowConfig.entryFilePath, {
+          name: 'queue',
+          parameters: [
+            { name: 'batch', type: 'MessageBatch' },
+            { name: 'env', type: 'Env' },
+          ],
+          returnType: 'Promise<void>',
+          statements: `await ${batchStarterName}(batch, env);`,
+          namedImports: [batchStarterName],
+          importPath: `./${moduleName}`,
+        });
+      }
+      return;
+    }
+
+    const srcDir = path.join(projectDir, 'src');
+
+    // Ensure src directory exists
+    await fs.ensureDir(srcDir);
+
+    // Generate the entry file (Queues dashboard or plain demo) and the workflow module
+    if (usesQueuesDashboard(workflowConfig)) {
+      await QueuesPrimitive.generateFiles(projectDir, getQueuesConfig(workflowConfig));
+    } else {
+      await fs.writeFile(
+        path.join(srcDir, 'index.ts'),
+        generateWorkflowWorkerCode(templateOptions),
+        'utf-8'
+      );
+    }
+    await fs.writeFile(
+      path.join(srcDir, `${moduleName}.ts`),
+      generateWorkflowCode(templateOptions),
+      'utf-8'
+    );
+
+    logger.success(`Created ${moduleName}.ts`);
+  },
+
+  async preDeploySteps(projectDir: string, config: PrimitiveConfig): Promise<void> {
+    const workflowConfig = config as WorkflowsPrimitiveConfig;
+
+    // Workflows themselves are created on deploy; only the queue needs to exist first
+    if (workflowConfig.startFromQueue) {
+      await QueuesPrimitive.preDeploySteps!(projectDir, getQueuesConfig(workflowConfig));
+    }
+  },
+
+  getDeploymentInfo(config: PrimitiveConfig) {
+    const workflowConfig = config as WorkflowsPrimitiveConfig;
+    const nextSteps = [
+      `Start an instance: curl -X POST http://localhost:8787${WORKFLOW_ROUTE} -d "hello"`,
+      `Poll its status: curl http://localhost:8787${WORKFLOW_ROUTE}/<instance-id>`,
+    ];
+
+    if (usesQueuesDashboard(workflowConfig)) {
+      nextSteps.push('Open http://localhost:8787 and enqueue messages - each one starts an instance');
+    }
+
+    return {
+      successMessage: `🎉 Your ${workflowConfig.className} workflow is live!`,
+      nextSteps,
+      setupCommands: workflowConfig.startFromQueue
+        ? [`npx wrangler queues create ${workflowConfig.queueName}`]
+        : undefined,
+    };
+  },
+};
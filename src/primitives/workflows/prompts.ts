@@ -0,0 +1,125 @@
+import prompts from 'prompts';
+import { coloredPrompts } from '../../lib/helpers.js';
+
+export interface NewWorkflowProjectChoices {
+  projectName: string;
+  className: string;
+  bindingName: string;
+  startFromQueue: boolean;
+  queueName?: string;
+  queueBindingName?: string;
+}
+
+export interface ExistingWorkflowProjectChoices {
+  className: string;
+  bindingName: string;
+  startFromQueue: boolean;
+  queueName?: string;
+}
+
+// OrderWorkflow → ORDER_WORKFLOW
+function toBindingName(className: string): string {
+  return className.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+export async function promptNewWorkflowProject(): Promise<NewWorkflowProjectChoices | null> {
+  console.log('\nNo Worker project detected. Let\'s create a new one with Workflows!\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name?',
+      initial: 'my-workflow-worker',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., my-workflow-worker)',
+    },
+    {
+      type: 'text',
+      name: 'className',
+      message: 'Workflow class name?',
+      initial: 'MyWorkflow',
+      validate: (value: string) =>
+        /^[A-Z][A-Za-z0-9]*$/.test(value) || 'Must be PascalCase (e.g., MyWorkflow)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: (prev: string) => toBindingName(prev),
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., MY_WORKFLOW)',
+    },
+    {
+      type: 'confirm',
+      name: 'startFromQueue',
+      message: 'Start instances from a queue consumer (includes the Queues dashboard)?',
+      initial: false,
+    },
+    {
+      type: (prev: boolean) => (prev ? 'text' : null),
+      name: 'queueName',
+      message: 'Queue name?',
+      initial: 'workflow-queue',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., workflow-queue)',
+    },
+    {
+      type: (_prev: string, values: prompts.Answers<string>) => (values.startFromQueue ? 'text' : null),
+      name: 'queueBindingName',
+      message: 'Queue binding name?',
+      initial: 'WORKFLOW_QUEUE',
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., WORKFLOW_QUEUE)',
+    },
+  ]);
+
+  if (!response.projectName || response.startFromQueue === undefined) {
+    return null;
+  }
+
+  return response as NewWorkflowProjectChoices;
+}
+
+export async function promptExistingWorkflowProject(): Promise<ExistingWorkflowProjectChoices | null> {
+  console.log('\nDetected a Cloudflare Worker project in this directory.\n');
+
+  const response = await coloredPrompts([
+    {
+      type: 'text',
+      name: 'className',
+      message: 'Workflow class name?',
+      initial: 'MyWorkflow',
+      validate: (value: string) =>
+        /^[A-Z][A-Za-z0-9]*$/.test(value) || 'Must be PascalCase (e.g., MyWorkflow)',
+    },
+    {
+      type: 'text',
+      name: 'bindingName',
+      message: 'Binding name?',
+      initial: (prev: string) => toBindingName(prev),
+      validate: (value: string) =>
+        /^[A-Z][A-Z0-9_]*$/.test(value) || 'Must be uppercase with underscores (e.g., MY_WORKFLOW)',
+    },
+    {
+      type: 'confirm',
+      name: 'startFromQueue',
+      message: 'Start instances from a queue consumer?',
+      initial: false,
+    },
+    {
+      type: (prev: boolean) => (prev ? 'text' : null),
+      name: 'queueName',
+      message: 'Queue to consume?',
+      initial: 'workflow-queue',
+      validate: (value: string) =>
+        /^[a-z0-9-]+$/.test(value) || 'Must be lowercase with hyphens (e.g., workflow-queue)',
+    },
+  ]);
+
+  if (!response.className || response.startFromQueue === undefined) {
+    return null;
+  }
+
+  return response as ExistingWorkflowProjectChoices;
+}
@@ -0,0 +1,185 @@
+// Workflow template interfaces and generators
+
+export interface WorkflowTemplateOptions {
+  className: string;
+  bindingName: string;
+}
+
+// Route prefix the workflow handler is mounted on
+export const WORKFLOW_ROUTE = '/workflows';
+
+// OrderWorkflow → order-workflow (module and workflow name)
+export function getWorkflowModuleName(className: string): string {
+  return className.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+export function getWorkflowHandlerName(className: string): string {
+  return `handle${className}`;
+}
+
+export function getWorkflowStarterName(className: string): string {
+  return `start${className}`;
+}
+
+export function getWorkflowBatchStarterName(className: string): string {
+  return `start${className}sFromBatch`;
+}
+
+export function generateWorkflowWorkerCode(options: WorkflowTemplateOptions): string {
+  const { className, bindingName } = options;
+  const moduleName = getWorkflowModuleName(className);
+  const handlerName = getWorkflowHandlerName(className);
+
+  return `// Cloudflare Workflows - ${className} demo
+// The ${className} class and its ${WORKFLOW_ROUTE} routes live in ${moduleName}.ts
+
+import { ${className}, ${handlerName}, type ${className}Params } from "./${moduleName}";
+
+interface Env {
+  ${bindingName}: Workflow<${className}Params>;
+}
+
+// Workflow classes must be exported from the entry module
+export { ${className} };
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname.startsWith("${WORKFLOW_ROUTE}")) {
+      return ${handlerName}(request, env);
+    }
+
+    return new Response("Workflows Demo\\n\\nStart an instance with POST ${WORKFLOW_ROUTE}, then poll GET ${WORKFLOW_ROUTE}/:id", {
+      headers: { "Content-Type": "text/plain" },
+    });
+  },
+} satisfies ExportedHandler<Env>;
+`;
+}
+
+export function generateWorkflowCode(options: WorkflowTemplateOptions): string {
+  const { className, bindingName } = options;
+  const handlerName = getWorkflowHandlerName(className);
+  const starterName = getWorkflowStarterName(className);
+  const batchStarterName = getWorkflowBatchStarterName(className);
+
+  return `// ${className} - a durable multi-step workflow
+// POST ${WORKFLOW_ROUTE}      → start an instance (request body becomes the input)
+// GET  ${WORKFLOW_ROUTE}/:id  → instance status and output
+//
+// Each step.do() result is persisted. If the instance restarts or a later step
+// retries, completed steps are replayed from storage instead of re-running.
+
+import { WorkflowEntrypoint, type WorkflowEvent, type WorkflowStep } from "cloudflare:workers";
+
+export interface ${className}Env {
+  ${bindingName}: Workflow<${className}Params>;
+}
+
+export type ${className}Params = {
+  input: string;
+  requestedAt: number;
+};
+
+export class ${className} extends WorkflowEntrypoint<${className}Env, ${className}Params> {
+  async run(event: WorkflowEvent<${className}Params>, step: WorkflowStep) {
+    const prepared = await step.do("prepare input", async () => {
+      return { input: event.payload.input.trim(), receivedAt: Date.now() };
+    });
+
+    // Throwing inside a step retries just that step, with backoff
+    const processed = await step.do(
+      "process input",
+      {
+        retries: { limit: 3, delay: "5 seconds", backoff: "exponential" },
+        timeout: "1 minute",
+      },
+      async () => {
+        if (Math.random() < 0.3) {
+          throw new Error("Simulated transient failure");
+        }
+        return { result: prepared.input.toUpperCase() };
+      }
+    );
+
+    // Sleeping doesn't hold any compute; the instance is woken up later
+    await step.sleep("wait before finishing", "10 seconds");
+
+    return await step.do("finish", async () => {
+      return {
+        ...processed,
+        queuedFor: Date.now() - event.payload.requestedAt,
+      };
+    });
+  }
+}
+
+// Start an instance, or return the existing one if this id was already used
+// (e.g. when a queue message is delivered again)
+export async function ${starterName}(
+  env: ${className}Env,
+  id: string,
+  params: ${className}Params
+): Promise<WorkflowInstance> {
+  try {
+    return await env.${bindingName}.create({ id, params });
+  } catch (error) {
+    const existing = await env.${bindingName}.get(id).catch(() => null);
+    if (existing) {
+      return existing;
+    }
+    throw error;
+  }
+}
+
+// Queue consumer helper: one instance per message, keyed by the message id
+export async function ${batchStarterName}(
+  batch: MessageBatch<unknown>,
+  env: ${className}Env
+): Promise<void> {
+  for (const message of batch.messages) {
+    try {
+      const input = typeof message.body === "string" ? message.body : JSON.stringify(message.body);
+      const instance = await ${starterName}(env, message.id, {
+        input,
+        requestedAt: message.timestamp.getTime(),
+      });
+      console.log(\`Started ${className} instance \${instance.id}\`);
+      message.ack();
+    } catch (error) {
+      console.error(\`Failed to start ${className} for message \${message.id}:\`, error);
+      message.retry();
+    }
+  }
+}
+
+export async function ${handlerName}(request: Request, env: ${className}Env): Promise<Response> {
+  const url = new URL(request.url);
+  const instanceId = url.pathname.split("/")[2];
+
+  // POST ${WORKFLOW_ROUTE} - start a new instance
+  if (request.method === "POST" && !instanceId) {
+    const input = (await request.text()) || "hello workflows";
+    const instance = await ${starterName}(env, crypto.randomUUID(), {
+      input,
+      requestedAt: Date.now(),
+    });
+
+    return Response.json({ id: instance.id, status: await instance.status() }, { status: 202 });
+  }
+
+  // GET ${WORKFLOW_ROUTE}/:id - poll an instance
+  if (request.method === "GET" && instanceId) {
+    try {
+      const instance = await env.${bindingName}.get(instanceId);
+      return Response.json({ id: instance.id, status: await instance.status() });
+    } catch (error) {
+      return Response.json({ error: \`Instance "\${instanceId}" not found\` }, { status: 404 });
+    }
+  }
+
+  return new Response("Method not allowed", { status: 405 });
+}
+`;
+}